@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, BellOff, Bell } from 'lucide-react';
+import {
+  RateAlert, AlertSettings, AlertContext, AlertKind, createAlert, describeAlert, currentValue, snoozeAlert,
+} from '../services/alerts';
+import { formatFixed, formatPercent } from '../services/calcEngine';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface AlertsPanelProps {
+  alerts: RateAlert[];
+  settings: AlertSettings;
+  context: AlertContext;
+  currencies: string[];
+  defaultPair: string;
+  onChange: (alerts: RateAlert[]) => void;
+  onSettingsChange: (settings: AlertSettings) => void;
+  onClose: () => void;
+}
+
+const field = 'bg-[#F2F3F5] rounded-lg px-2 py-1.5 text-[12px] outline-none w-full';
+
+const KIND_LABELS: Record<AlertKind, MessageKey> = { spread: 'alerts.kind.spread', cbMove: 'alerts.kind.cbMove', rateCross: 'alerts.kind.rateCross' };
+
+export const AlertsPanel = ({ alerts, settings, context, currencies, defaultPair, onChange, onSettingsChange, onClose }: AlertsPanelProps) => {
+  const { t, locale } = useI18n();
+  const [draft, setDraft] = useState<RateAlert>(() => createAlert({ target: defaultPair }));
+  const now = Date.now();
+
+  const update = (id: string, patch: Partial<RateAlert>) => onChange(alerts.map(a => a.id === id ? { ...a, ...patch } : a));
+
+  const add = () => {
+    if (!draft.target.trim() || !draft.threshold.trim()) return;
+    onChange([...alerts, { ...draft, target: draft.target.trim().toUpperCase() }]);
+    setDraft(createAlert({ target: draft.target, kind: draft.kind }));
+  };
+
+  const toggleNotifications = () => {
+    if (settings.notifications || typeof Notification === 'undefined') {
+      onSettingsChange({ ...settings, notifications: false });
+      return;
+    }
+    Notification.requestPermission().then(p => onSettingsChange({ ...settings, notifications: p === 'granted' }));
+  };
+
+  const formatValue = (a: RateAlert) => {
+    const v = currentValue(a, context);
+    if (v === null) return '—';
+    return a.kind === 'spread' ? formatPercent(v) : formatFixed(v, 4);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[92vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('alerts.title')}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+
+        <div className="p-3 bg-[#F9FAFB] rounded-2xl border border-gray-100 space-y-2 mb-3 text-[12px]">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-gray-600">{t('alerts.spreadWarning')}</span>
+            <input value={settings.spreadWarningPct} inputMode="decimal" onChange={(e) => onSettingsChange({ ...settings, spreadWarningPct: e.target.value })} className={`${field} w-16 text-right`} />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-gray-600">{t('alerts.warningDelay')}</span>
+            <input value={settings.warningDelaySec} inputMode="decimal" onChange={(e) => onSettingsChange({ ...settings, warningDelaySec: e.target.value })} className={`${field} w-16 text-right`} />
+          </div>
+          <button onClick={toggleNotifications} className="w-full flex items-center justify-between">
+            <span className="text-gray-600">{t('alerts.notifications')}</span>
+            <span className={`flex items-center gap-1 font-semibold ${settings.notifications ? 'text-[#2866E0]' : 'text-gray-400'}`}>{settings.notifications ? <Bell size={14} /> : <BellOff size={14} />}{t(settings.notifications ? 'alerts.on' : 'alerts.off')}</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-3">
+          {alerts.length === 0 && <p className="text-sm text-gray-500 text-center py-3">{t('alerts.empty')}</p>}
+          {alerts.map(a => {
+            const snoozed = a.snoozedUntil > now;
+            return (
+              <div key={a.id} className={`rounded-2xl border p-3 text-[12px] ${a.triggeredAt ? 'border-rose-200 bg-rose-50/60' : 'border-gray-100 bg-[#F9FAFB]'} ${a.enabled ? '' : 'opacity-50'}`}>
+                <div className="flex items-center gap-2">
+                  <input type="checkbox" checked={a.enabled} onChange={(e) => update(a.id, { enabled: e.target.checked })} className="w-4 h-4 accent-[#2866E0]" />
+                  <span className="flex-1 font-semibold text-gray-800">{describeAlert(a, t)}</span>
+                  <button onClick={() => onChange(alerts.map(x => x.id === a.id ? snoozeAlert(x) : x))} title={t('alerts.snoozeHour')} className="text-gray-400 active:text-[#2866E0]"><BellOff size={15} /></button>
+                  <button onClick={() => onChange(alerts.filter(x => x.id !== a.id))} className="text-gray-400 active:text-rose-500"><Trash2 size={15} /></button>
+                </div>
+                <div className="text-[11px] text-gray-500 mt-1 pl-6">
+                  {t('alerts.now', { value: formatValue(a) })}
+                  {a.kind === 'cbMove' && a.baselineCb ? t('alerts.base', { value: formatFixed(a.baselineCb, 4) }) : ''}
+                  {a.triggeredAt ? t('alerts.triggered') : ''}
+                  {snoozed ? t('alerts.snoozedUntil', { time: new Date(a.snoozedUntil).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }) }) : ''}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-3 rounded-2xl border border-dashed border-gray-200 grid grid-cols-2 gap-2 mb-3">
+          <select value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as AlertKind })} className={`${field} col-span-2`}>
+            {(Object.keys(KIND_LABELS) as AlertKind[]).map(k => <option key={k} value={k}>{t(KIND_LABELS[k])}</option>)}
+          </select>
+          <input list="alert-targets" value={draft.target} onChange={(e) => setDraft({ ...draft, target: e.target.value })} placeholder={t('alerts.targetPlaceholder')} className={field} />
+          <datalist id="alert-targets">
+            {[defaultPair, ...currencies].map(c => <option key={c} value={c} />)}
+          </datalist>
+          <input value={draft.threshold} inputMode="decimal" onChange={(e) => setDraft({ ...draft, threshold: e.target.value })} placeholder={t(draft.kind === 'rateCross' ? 'alerts.targetRate' : 'alerts.thresholdPct')} className={field} />
+          {!draft.target.includes('/') && draft.kind !== 'cbMove' && (
+            <select value={draft.side} onChange={(e) => setDraft({ ...draft, side: e.target.value as 'buy' | 'sell' })} className={field}>
+              <option value="buy">{t('alerts.buySide')}</option>
+              <option value="sell">{t('alerts.sellSide')}</option>
+            </select>
+          )}
+          {draft.kind === 'rateCross' && (
+            <select value={draft.direction} onChange={(e) => setDraft({ ...draft, direction: e.target.value as 'above' | 'below' })} className={field}>
+              <option value="above">{t('alerts.above')}</option>
+              <option value="below">{t('alerts.below')}</option>
+            </select>
+          )}
+          <button onClick={add} className="col-span-2 bg-[#F2F3F5] text-[#2866E0] font-semibold py-2 rounded-lg flex items-center justify-center gap-1"><Plus size={16} />{t('alerts.add')}</button>
+        </div>
+        <button onClick={onClose} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.done')}</button>
+      </div>
+    </div>
+  );
+};
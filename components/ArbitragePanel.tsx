@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { TrendingUp, TrendingDown, RotateCcw } from 'lucide-react';
+import { LegFees } from '../services/fees';
+import { RateInfo, formatMoney, formatFixed, formatPercent, formatInputString, parseDecimal, describeRate } from '../services/calcEngine';
+import { calculateArbitrage, crossRate } from '../services/arbitrage';
+import { loadSettings, updateSettings } from '../services/settings';
+import { useI18n } from '../hooks/useI18n';
+
+interface ArbitragePanelProps {
+  sourceCurr: string;
+  targetCurr: string;
+  buyRate: string;
+  sellRate: string;
+  apiRates: Record<string, number>;
+  fees: LegFees;
+  spreadWarningPct: number;
+  getRateInfo: (rateStr: string, currency: string) => RateInfo | null;
+}
+
+const SpreadLine = ({ label, info, spreadWarningPct }: { label: string; info: RateInfo | null; spreadWarningPct: number }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex justify-between text-[11px]">
+      <span className="text-gray-500">{label}</span>
+      {info ? (
+        <span className="text-gray-500">{t('arb.cb')} {info.cb} · <span className={Math.abs(info.diffVal) > spreadWarningPct ? 'text-rose-600 font-bold' : info.diffVal >= 0 ? 'text-emerald-600' : 'text-rose-500'}>{info.diff}</span></span>
+      ) : <span className="text-gray-400">{t('arb.noCb')}</span>}
+    </div>
+  );
+};
+
+export const ArbitragePanel = ({ sourceCurr, targetCurr, buyRate, sellRate, apiRates, fees, spreadWarningPct, getRateInfo }: ArbitragePanelProps) => {
+  const { t } = useI18n();
+  // Persisted as a plain number so it survives a change of number format
+  const [amount, setAmount] = useState(() => formatMoney(parseDecimal(loadSettings().arbAmount), sourceCurr));
+  const [manualReturnRate, setManualReturnRate] = useState<string | null>(null);
+
+  const cbReturn = crossRate(apiRates, sourceCurr, targetCurr);
+  const returnRate = manualReturnRate ?? (cbReturn ? formatInputString(cbReturn.toFixed(6).replace(/\.?0+$/, '')) : '');
+  const result = calculateArbitrage({ buyRate, sellRate, returnRate, amount, fees });
+  const returnInfo = cbReturn ? describeRate(returnRate, cbReturn.toNumber(), 4) : null;
+  const isProfit = result ? !result.profit.isNegative() : false;
+
+  const changeAmount = (val: string) => {
+    const formatted = formatInputString(val);
+    setAmount(formatted);
+    updateSettings({ arbAmount: parseDecimal(formatted).toString() });
+  };
+
+  return (
+    <div className="bg-white rounded-[24px] shadow-sm p-4 pt-5 space-y-3">
+      <div className="bg-[#F2F3F5] rounded-xl px-4 py-3 flex justify-between items-center gap-3 focus-within:ring-2 focus-within:ring-[#2866E0] transition-all">
+        <div className="flex flex-col flex-1 min-w-0"><span className="text-[11px] text-[#999999] font-medium">{t('arb.startVolume')}</span><input type="text" inputMode="decimal" value={amount} onChange={(e) => changeAmount(e.target.value)} className="bg-transparent text-[26px] font-semibold text-black outline-none w-full" /></div>
+        <span className="text-[17px] font-medium text-[#999999]">{sourceCurr}</span>
+      </div>
+      <div className="bg-[#F2F3F5] rounded-xl px-4 py-3 flex justify-between items-center gap-3 focus-within:ring-2 focus-within:ring-[#2866E0] transition-all">
+        <div className="flex flex-col flex-1 min-w-0">
+          <span className="text-[11px] text-[#999999] font-medium flex items-center gap-1">{t('arb.returnRate', { target: targetCurr, source: sourceCurr })} {manualReturnRate === null && <span className="text-[9px] bg-gray-200 px-1 rounded text-gray-500">{t('arb.cb')}</span>}</span>
+          <input type="text" inputMode="decimal" value={returnRate} onChange={(e) => setManualReturnRate(formatInputString(e.target.value))} className="bg-transparent text-[22px] font-semibold text-black outline-none w-full" placeholder="0.00" />
+        </div>
+        {manualReturnRate !== null && cbReturn && <button onClick={() => setManualReturnRate(null)} title={t('arb.useCbCross')} className="text-[#2866E0] active:opacity-60"><RotateCcw size={18} /></button>}
+      </div>
+
+      <div className="space-y-1 px-1">
+        <SpreadLine label={t('arb.buyFor', { currency: sourceCurr })} info={getRateInfo(buyRate, sourceCurr)} spreadWarningPct={spreadWarningPct} />
+        <SpreadLine label={t('arb.sellFor', { currency: targetCurr })} info={getRateInfo(sellRate, targetCurr)} spreadWarningPct={spreadWarningPct} />
+        <SpreadLine label={`${targetCurr} → ${sourceCurr}`} info={returnInfo} spreadWarningPct={spreadWarningPct} />
+      </div>
+
+      {result ? (
+        <div className={`rounded-xl p-4 space-y-1 text-[12px] ${isProfit ? 'bg-emerald-50' : 'bg-rose-50'}`}>
+          <div className="flex items-center justify-between">
+            <span className={`flex items-center gap-1 font-bold text-[15px] ${isProfit ? 'text-emerald-700' : 'text-rose-600'}`}>{isProfit ? <TrendingUp size={18} /> : <TrendingDown size={18} />}{t(isProfit ? 'arb.profit' : 'arb.loss')}</span>
+            <span className={`font-bold text-[18px] ${isProfit ? 'text-emerald-700' : 'text-rose-600'}`}>{isProfit ? '+' : '−'}{formatMoney(result.profit.abs(), sourceCurr)} {sourceCurr}</span>
+          </div>
+          <div className="flex justify-between text-gray-600"><span>{t('arb.return')}</span><span className="font-semibold">{formatPercent(result.profitPct)}</span></div>
+          <div className="flex justify-between text-gray-600"><span>{t('arb.path')}</span><span>{formatMoney(result.usdt, 'USDT')} USDT → {formatMoney(result.received, targetCurr)} {targetCurr} → {formatMoney(result.returned, sourceCurr)} {sourceCurr}</span></div>
+          <div className="flex justify-between text-gray-600"><span>{t('arb.breakEven')}</span><span>{result.breakEvenSellRate ? formatFixed(result.breakEvenSellRate, 4) : '—'} {targetCurr}</span></div>
+          <div className="flex justify-between text-gray-600"><span>{t('arb.minVolume')}</span><span>{result.minVolume ? `${formatMoney(result.minVolume, sourceCurr)} ${sourceCurr}` : t('arb.notProfitable')}</span></div>
+        </div>
+      ) : (
+        <p className="text-[12px] text-gray-500 text-center py-2">{t('arb.empty')}</p>
+      )}
+    </div>
+  );
+};
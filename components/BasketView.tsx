@@ -0,0 +1,85 @@
+import React, { useState, useMemo } from 'react';
+import { X, ArrowUp, ArrowDown, ChevronRight } from 'lucide-react';
+import { SpreadMap, formatMoney, formatFixed, formatPercent, formatInputString } from '../services/calcEngine';
+import { FeeRule } from '../services/fees';
+import { BasketSort, buildBasket, sortBasket } from '../services/basket';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface BasketViewProps {
+  sourceCurr: string;
+  initialAmount: string;
+  buyRate: string;
+  currencies: string[];
+  apiRates: Record<string, number>;
+  spreads: SpreadMap;
+  feeRules: FeeRule[];
+  spreadWarningPct: number;
+  onSelect: (currency: string, amount: string) => void;
+  onClose: () => void;
+}
+
+const SORT_LABELS: Record<BasketSort, MessageKey> = { currency: 'basket.sortCurrency', value: 'basket.sortValue', spread: 'basket.sortSpread' };
+
+export const BasketView = ({ sourceCurr, initialAmount, buyRate, currencies, apiRates, spreads, feeRules, spreadWarningPct, onSelect, onClose }: BasketViewProps) => {
+  const { t } = useI18n();
+  const [amount, setAmount] = useState(initialAmount);
+  const [sort, setSort] = useState<BasketSort>('value');
+  const [desc, setDesc] = useState(true);
+
+  const rows = useMemo(
+    () => sortBasket(buildBasket({ sourceCurr, amount, buyRate, currencies, apiRates, spreads, feeRules }), sort, desc),
+    [sourceCurr, amount, buyRate, currencies, apiRates, spreads, feeRules, sort, desc],
+  );
+
+  // Tapping the active sort flips its direction
+  const changeSort = (next: BasketSort) => {
+    if (next === sort) setDesc(!desc);
+    else { setSort(next); setDesc(next !== 'currency'); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[92vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('basket.title', { currency: sourceCurr })}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+
+        <div className="bg-[#F2F3F5] rounded-xl px-4 py-3 flex justify-between items-center gap-3 mb-3 focus-within:ring-2 focus-within:ring-[#2866E0]">
+          <div className="flex flex-col flex-1 min-w-0"><span className="text-[11px] text-[#999999] font-medium">{t('amount.give')}</span><input type="text" inputMode="decimal" value={amount} onChange={(e) => setAmount(formatInputString(e.target.value))} className="bg-transparent text-[22px] font-semibold text-black outline-none w-full" /></div>
+          <span className="text-[17px] font-medium text-[#999999]">{sourceCurr}</span>
+        </div>
+
+        <div className="bg-[#E5E7EB] p-1 rounded-xl flex text-[13px] font-medium mb-1">
+          {(Object.keys(SORT_LABELS) as BasketSort[]).map(s => (
+            <button key={s} onClick={() => changeSort(s)} className={`flex-1 py-1 rounded-lg transition-all duration-200 flex items-center justify-center gap-0.5 ${sort === s ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>
+              {t(SORT_LABELS[s])}{sort === s && (desc ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-gray-400 text-center mb-2">{t('basket.hint')}</p>
+
+        <div className="flex-1 overflow-y-auto space-y-1.5 mb-3">
+          {rows.length === 0 && <p className="text-sm text-gray-500 text-center py-4">{t('basket.empty')}</p>}
+          {rows.map(row => (
+            <button key={row.currency} disabled={!row.received} onClick={() => onSelect(row.currency, amount)} className="w-full rounded-2xl border border-gray-100 bg-[#F9FAFB] px-3 py-2.5 flex items-center gap-3 text-left active:bg-gray-100 disabled:opacity-50">
+              <span className="w-12 text-[15px] font-bold text-gray-800">{row.currency}</span>
+              {row.received ? (
+                <div className="flex-1 min-w-0">
+                  <div className="text-[16px] font-semibold text-gray-900 truncate">{formatMoney(row.received, row.currency)}</div>
+                  <div className="text-[10px] text-gray-500">
+                    {row.effectiveRate && `1 ${row.currency} = ${formatFixed(row.effectiveRate, 4)} ${sourceCurr}`}
+                    {row.spread !== null && <span className={Math.abs(row.spread) > spreadWarningPct ? 'text-rose-600 font-bold' : row.spread >= 0 ? 'text-emerald-600' : 'text-rose-500'}> · {formatPercent(row.spread)}</span>}
+                  </div>
+                </div>
+              ) : (
+                <span className="flex-1 text-[12px] text-gray-400">{t('arb.noCb')}</span>
+              )}
+              <ChevronRight size={16} className="text-[#999999] shrink-0" />
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.done')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Sparkles, RefreshCw } from 'lucide-react';
+import { formatAmount, rateDecimals } from '../services/calcEngine';
+import { useI18n } from '../hooks/useI18n';
+
+interface EstimateRowProps {
+  currency: string;
+  value: number | null;
+  rationale?: string;
+  loading: boolean;
+  error?: string;
+  onRequest: (force: boolean) => void;
+  onApply: (value: number) => void;
+}
+
+// Gemini suggestion under the CB rate of a rate card.
+export const EstimateRow = ({ currency, value, rationale, loading, error, onRequest, onApply }: EstimateRowProps) => {
+  const { t } = useI18n();
+  return (
+    <div className="pt-0.5">
+      <div className="flex justify-between items-center text-gray-500">
+        <span className="flex items-center gap-0.5"><Sparkles size={10} className="text-violet-500" />{t('estimate.label')}</span>
+        {loading ? (
+          <RefreshCw size={10} className="animate-spin text-violet-500" />
+        ) : value !== null ? (
+          <span className="flex items-center gap-1">
+            <button onClick={() => onApply(value)} title={t('estimate.apply')} className="font-semibold text-violet-600 underline decoration-dotted active:opacity-60">{formatAmount(value, rateDecimals(currency))}</button>
+            <button onClick={() => onRequest(true)} title={t('estimate.refresh')} className="text-gray-400 active:text-violet-500"><RefreshCw size={10} /></button>
+          </span>
+        ) : (
+          <button onClick={() => onRequest(false)} title={error} className={`font-semibold active:opacity-60 ${error ? 'text-rose-500' : 'text-violet-600'}`}>{t(error ? 'estimate.retry' : 'estimate.ask')}</button>
+        )}
+      </div>
+      {value !== null && rationale && <p className="text-[9px] text-gray-400 leading-snug line-clamp-2" title={rationale}>{rationale}</p>}
+    </div>
+  );
+};
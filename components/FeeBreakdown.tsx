@@ -0,0 +1,50 @@
+import React from 'react';
+import { FeeBreakdown as Breakdown, formatMoney, formatFixed } from '../services/calcEngine';
+import { Decimal } from '../services/decimal';
+import { useI18n } from '../hooks/useI18n';
+
+interface FeeBreakdownProps {
+  breakdown: Breakdown;
+  sourceCurr: string;
+  targetCurr: string;
+}
+
+const Row = ({ label, value, muted, strong }: { label: string; value: string; muted?: boolean; strong?: boolean }) => (
+  <div className={`flex justify-between ${muted ? 'text-gray-400' : 'text-gray-600'} ${strong ? 'font-bold text-gray-900' : ''}`}><span>{label}</span><span>{value}</span></div>
+);
+
+const fee = (gross: Decimal, net: Decimal, curr: string) => {
+  const diff = gross.minus(net);
+  return diff.isZero() ? null : `−${formatMoney(diff, curr)} ${curr}`;
+};
+
+// Shown inside the rates card, under the CB rate and spread of each leg
+export const FeeBreakdown = ({ breakdown: b, sourceCurr, targetCurr }: FeeBreakdownProps) => {
+  const { t } = useI18n();
+  const giveFee = fee(b.giveGross, b.giveNet, sourceCurr);
+  const buyUsdtFee = fee(b.usdtBought, b.usdtCredited, 'USDT');
+  const networkFee = fee(b.usdtCredited, b.usdtDelivered, 'USDT');
+  const sellUsdtFee = fee(b.usdtDelivered, b.usdtSold, 'USDT');
+  const receiveFee = fee(b.receiveGross, b.receiveNet, targetCurr);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 text-[11px] space-y-1 animate-in slide-in-from-top-2 duration-300">
+      <div className="text-[11px] text-[#999999] font-medium mb-1">{t('fees.breakdown')}</div>
+      <Row label={t('fees.giveGross')} value={`${formatMoney(b.giveGross, sourceCurr)} ${sourceCurr}`} />
+      {giveFee && <Row label={t('fees.buyLeg')} value={giveFee} muted />}
+      <Row label={t('fees.usdtBought')} value={formatMoney(b.usdtBought, 'USDT')} />
+      {buyUsdtFee && <Row label={t('fees.exchange')} value={buyUsdtFee} muted />}
+      {networkFee && <Row label={t('fees.network')} value={networkFee} muted />}
+      {sellUsdtFee && <Row label={t('fees.sellLeg')} value={sellUsdtFee} muted />}
+      <Row label={t('fees.usdtSold')} value={formatMoney(b.usdtSold, 'USDT')} />
+      <Row label={t('fees.receiveGross')} value={`${formatMoney(b.receiveGross, targetCurr)} ${targetCurr}`} />
+      {receiveFee && <Row label={t('fees.payout')} value={receiveFee} muted />}
+      <Row label={t('fees.receiveNet')} value={`${formatMoney(b.receiveNet, targetCurr)} ${targetCurr}`} strong />
+      <div className="pt-2 mt-1 border-t border-gray-100 space-y-1">
+        <Row label={t('fees.total')} value={`${formatMoney(b.totalFeeUsdt, 'USDT')} USDT (${formatFixed(b.feePct, 2)}%)`} />
+        <Row label={t('fees.allInRate', { currency: targetCurr })} value={`${formatFixed(b.effectiveRate, 4)} ${sourceCurr}`} strong />
+        <Row label={t('fees.withoutFees')} value={`${formatFixed(b.baseRate, 4)} ${sourceCurr}`} muted />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { FeeRule, FEE_PRESETS, createFeeRule } from '../services/fees';
+import { formatInputString, getNumberFormat } from '../services/calcEngine';
+import { useI18n } from '../hooks/useI18n';
+
+interface FeesEditorProps {
+  rules: FeeRule[];
+  currencies: string[];
+  onChange: (rules: FeeRule[]) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'bg-[#F2F3F5] rounded-lg px-2 py-1.5 text-[12px] outline-none';
+
+export const FeesEditor = ({ rules, currencies, onChange, onClose }: FeesEditorProps) => {
+  const { t } = useI18n();
+  const update = (id: string, patch: Partial<FeeRule>) => onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  const remove = (id: string) => onChange(rules.filter(r => r.id !== id));
+  const presetsToOffer = FEE_PRESETS.filter(p => !rules.some(r => r.label === t(p.labelKey)));
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[90vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('settings.fees')}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+        <div className="flex-1 overflow-y-auto space-y-3 mb-4">
+          {rules.length === 0 && <p className="text-sm text-gray-500 text-center py-4">{t('fees.empty')}</p>}
+          {rules.map(rule => (
+            <div key={rule.id} className={`p-3 rounded-2xl border border-gray-100 bg-[#F9FAFB] space-y-2 ${rule.enabled ? '' : 'opacity-50'}`}>
+              <div className="flex items-center gap-2">
+                <input type="checkbox" checked={rule.enabled} onChange={(e) => update(rule.id, { enabled: e.target.checked })} className="w-4 h-4 accent-[#2866E0]" />
+                <input value={rule.label} onChange={(e) => update(rule.id, { label: e.target.value })} className="flex-1 min-w-0 bg-transparent font-semibold text-[14px] outline-none" />
+                <button onClick={() => remove(rule.id)} className="text-gray-400 active:text-rose-500"><Trash2 size={16} /></button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <select value={rule.leg} onChange={(e) => update(rule.id, { leg: e.target.value as FeeRule['leg'] })} className={selectClass}>
+                  <option value="buy">{t('fees.legBuy')}</option>
+                  <option value="network">{t('fees.legNetwork')}</option>
+                  <option value="sell">{t('fees.legSell')}</option>
+                </select>
+                <select value={rule.currency} disabled={rule.leg === 'network'} onChange={(e) => update(rule.id, { currency: e.target.value })} className={selectClass}>
+                  <option value="*">{t('fees.anyCurrency')}</option>
+                  {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <div className="flex items-center bg-[#F2F3F5] rounded-lg px-2">
+                  <input type="text" inputMode="decimal" value={rule.value} onChange={(e) => update(rule.id, { value: formatInputString(e.target.value, { ...getNumberFormat(), group: '' }) })} className="bg-transparent w-full py-1.5 text-[12px] outline-none" />
+                  <select value={rule.kind} onChange={(e) => update(rule.id, { kind: e.target.value as FeeRule['kind'] })} className="bg-transparent text-[12px] outline-none">
+                    <option value="percent">%</option>
+                    <option value="fixed">{t('fees.fixed')}</option>
+                  </select>
+                </div>
+                <select value={rule.leg === 'network' ? 'usdt' : rule.denomination} disabled={rule.leg === 'network'} onChange={(e) => update(rule.id, { denomination: e.target.value as FeeRule['denomination'] })} className={selectClass}>
+                  <option value="leg">{t('fees.inLegCurrency')}</option>
+                  <option value="usdt">{t('fees.inUsdt')}</option>
+                </select>
+              </div>
+            </div>
+          ))}
+        </div>
+        {presetsToOffer.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {presetsToOffer.map(({ labelKey, ...preset }) => <button key={labelKey} onClick={() => onChange([...rules, createFeeRule({ ...preset, label: t(labelKey) })])} className="px-2.5 py-1 rounded-full bg-[#F2F3F5] text-[11px] text-gray-600 active:bg-gray-200">+ {t(labelKey)}</button>)}
+          </div>
+        )}
+        <button onClick={() => onChange([...rules, createFeeRule()])} className="w-full bg-[#F2F3F5] text-[#2866E0] font-semibold py-3 rounded-xl flex items-center justify-center gap-1 mb-2"><Plus size={18} />{t('fees.add')}</button>
+        <button onClick={onClose} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.done')}</button>
+      </div>
+    </div>
+  );
+};
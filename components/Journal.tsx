@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Trash2, Download, Upload } from 'lucide-react';
+import { formatAmount, formatMoney, formatPercent, parseDecimal, rateDecimals } from '../services/calcEngine';
+import { downloadFile, dateStamp } from '../services/files';
+import {
+  Deal, listDeals, deleteDeal, putDeals, dealPair, filterDeals, summarizeDeals, realizedSpread,
+  dealsToCsv, dealsToJson, parseDealsFile,
+} from '../services/journal';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface JournalProps {
+  onClose: () => void;
+}
+
+const dateInput = 'bg-[#F2F3F5] rounded-lg px-2 py-1.5 text-[12px] outline-none w-full';
+
+const formatSpread = (val: number | null) => val === null ? '—' : formatPercent(val);
+
+// Older deals stored display strings, newer ones plain numbers; both render in the current locale
+const formatStored = (val: string, currency: string) => formatMoney(parseDecimal(val), currency);
+const formatRate = (val: string, currency: string) => formatAmount(parseDecimal(val), rateDecimals(currency));
+
+export const Journal = ({ onClose }: JournalProps) => {
+  const { t, locale } = useI18n();
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pair, setPair] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const reload = () => listDeals()
+    .then(setDeals)
+    .catch(e => setError(errorMessage(e, t)))
+    .finally(() => setLoading(false));
+
+  useEffect(() => { reload(); }, []);
+
+  const pairs = useMemo(() => [...new Set(deals.map(dealPair))].sort(), [deals]);
+  const visible = useMemo(() => filterDeals(deals, {
+    pair,
+    from: from ? new Date(from + 'T00:00:00').getTime() : undefined,
+    to: to ? new Date(to + 'T23:59:59.999').getTime() : undefined,
+  }), [deals, pair, from, to]);
+  const summary = useMemo(() => summarizeDeals(visible), [visible]);
+
+  const remove = (id: string) => deleteDeal(id).then(reload).catch(e => setError(String(e)));
+
+  const importFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text()
+      .then(text => putDeals(parseDealsFile(text, file.name)))
+      .then(() => { setError(null); return reload(); })
+      .catch(e => setError(errorMessage(e, t)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[92vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('journal.title')}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          <select value={pair} onChange={(e) => setPair(e.target.value)} className={dateInput}>
+            <option value="">{t('journal.allPairs')}</option>
+            {pairs.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={dateInput} />
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={dateInput} />
+        </div>
+
+        <div className="bg-[#F9FAFB] rounded-2xl border border-gray-100 p-3 text-[11px] text-gray-600 space-y-0.5 mb-3">
+          <div className="flex justify-between"><span>{t('journal.deals')}</span><span className="font-semibold text-gray-900">{summary.count}</span></div>
+          <div className="flex justify-between"><span>{t('journal.volume')}</span><span className="font-semibold text-gray-900">{formatMoney(summary.totalUsdt, 'USDT')} USDT</span></div>
+          {Object.keys(summary.given).map(c => <div key={'g' + c} className="flex justify-between"><span>{t('journal.given', { currency: c })}</span><span>{formatMoney(summary.given[c], c)}</span></div>)}
+          {Object.keys(summary.received).map(c => <div key={'r' + c} className="flex justify-between"><span>{t('journal.received', { currency: c })}</span><span>{formatMoney(summary.received[c], c)}</span></div>)}
+          <div className="flex justify-between"><span>{t('journal.avgSpread')}</span><span className="font-semibold text-gray-900">{formatSpread(summary.avgRealizedSpread)}</span></div>
+        </div>
+
+        {error && <p className="text-[11px] text-rose-600 mb-2">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-3">
+          {loading && <p className="text-sm text-gray-500 text-center py-4">{t('common.loading')}</p>}
+          {!loading && visible.length === 0 && <p className="text-sm text-gray-500 text-center py-4">{t('journal.empty')}</p>}
+          {visible.map(d => (
+            <div key={d.id} className="rounded-2xl border border-gray-100 bg-[#F9FAFB] p-3 text-[12px]">
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <div className="font-bold text-gray-900">{formatStored(d.amountBuy, d.sourceCurr)} {d.sourceCurr} → {formatStored(d.amountSale, d.targetCurr)} {d.targetCurr}</div>
+                  <div className="text-[11px] text-gray-500">{new Date(d.createdAt).toLocaleString(locale)} · {formatStored(d.amountUsdt, 'USDT')} USDT</div>
+                  <div className="text-[11px] text-gray-500">{t('journal.rates', { buy: formatRate(d.buyRate, d.sourceCurr), buySpread: formatSpread(d.spreadBuy), sell: formatRate(d.sellRate, d.targetCurr), sellSpread: formatSpread(d.spreadSell), realized: formatSpread(realizedSpread(d)) })}</div>
+                  {d.note && <div className="text-[11px] text-gray-700 mt-1 italic break-words">{d.note}</div>}
+                </div>
+                <button onClick={() => remove(d.id)} className="text-gray-400 active:text-rose-500 shrink-0"><Trash2 size={16} /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          <button onClick={() => downloadFile(dealsToCsv(visible), `p2p-deals-${dateStamp()}.csv`, 'text/csv')} className="bg-[#F2F3F5] text-[#2866E0] font-semibold py-2.5 rounded-xl text-[13px] flex items-center justify-center gap-1"><Download size={14} />CSV</button>
+          <button onClick={() => downloadFile(dealsToJson(visible), `p2p-deals-${dateStamp()}.json`, 'application/json')} className="bg-[#F2F3F5] text-[#2866E0] font-semibold py-2.5 rounded-xl text-[13px] flex items-center justify-center gap-1"><Download size={14} />JSON</button>
+          <label className="bg-[#F2F3F5] text-[#2866E0] font-semibold py-2.5 rounded-xl text-[13px] flex items-center justify-center gap-1 cursor-pointer"><Upload size={14} />{t('common.import')}<input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={(e) => { importFile(e.target.files?.[0]); e.target.value = ''; }} /></label>
+        </div>
+        <button onClick={onClose} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.done')}</button>
+      </div>
+    </div>
+  );
+};
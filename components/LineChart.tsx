@@ -0,0 +1,76 @@
+import React from 'react';
+import { SeriesPoint } from '../services/rateHistory';
+import { formatFixed } from '../services/calcEngine';
+import { useI18n } from '../hooks/useI18n';
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: SeriesPoint[];
+  dots?: boolean;
+}
+
+interface LineChartProps {
+  series: ChartSeries[];
+  from: number;
+  to: number;
+  height?: number;
+  formatValue?: (v: number) => string;
+  zeroLine?: boolean;
+}
+
+const WIDTH = 320;
+const PAD = { top: 8, right: 8, bottom: 18, left: 44 };
+
+const formatTick = (ts: number, span: number, locale: string) => {
+  const d = new Date(ts);
+  return span <= 24 * 60 * 60 * 1000
+    ? d.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })
+    : d.toLocaleDateString(locale, { day: 'numeric', month: 'short' });
+};
+
+// Minimal dependency-free SVG line chart; series sharing one y-axis.
+export const LineChart = ({ series, from, to, height = 140, formatValue = v => formatFixed(v, 2), zeroLine }: LineChartProps) => {
+  const { t, locale } = useI18n();
+  const values = series.flatMap(s => s.points.map(p => p.value));
+  if (zeroLine) values.push(0);
+  if (values.length === 0) {
+    return <div className="h-[100px] flex items-center justify-center text-[12px] text-gray-400">{t('charts.noData')}</div>;
+  }
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (min === max) { min -= Math.abs(min) * 0.01 || 1; max += Math.abs(max) * 0.01 || 1; }
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = height - PAD.top - PAD.bottom;
+  const x = (ts: number) => PAD.left + ((ts - from) / (to - from)) * innerW;
+  const y = (v: number) => PAD.top + (1 - (v - min) / (max - min)) * innerH;
+  const ticks = [min, (min + max) / 2, max];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full">
+        {ticks.map((tick, i) => (
+          <g key={i}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(tick)} y2={y(tick)} stroke="#F2F3F5" />
+            <text x={PAD.left - 4} y={y(tick) + 3} textAnchor="end" fontSize="9" fill="#999999">{formatValue(tick)}</text>
+          </g>
+        ))}
+        {zeroLine && min < 0 && max > 0 && <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#D1D5DB" strokeDasharray="3 3" />}
+        <text x={PAD.left} y={height - 4} fontSize="9" fill="#999999">{formatTick(from, to - from, locale)}</text>
+        <text x={WIDTH - PAD.right} y={height - 4} textAnchor="end" fontSize="9" fill="#999999">{formatTick(to, to - from, locale)}</text>
+        {series.map(s => {
+          const pts = [...s.points].sort((a, b) => a.ts - b.ts);
+          return (
+            <g key={s.label}>
+              {pts.length > 1 && <polyline fill="none" stroke={s.color} strokeWidth="1.5" points={pts.map(p => `${x(p.ts)},${y(p.value)}`).join(' ')} />}
+              {(s.dots || pts.length === 1) && pts.map((p, i) => <circle key={i} cx={x(p.ts)} cy={y(p.value)} r="2" fill={s.color} />)}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-3 justify-center text-[10px] text-gray-500">
+        {series.map(s => <span key={s.label} className="flex items-center gap-1"><span className="w-2.5 h-0.5 rounded" style={{ backgroundColor: s.color }}></span>{s.label}</span>)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { LayoutDashboard, PinOff } from 'lucide-react';
+import { Decimal } from '../services/decimal';
+import { SpreadMap, formatFixed, formatPercent, rateDecimals } from '../services/calcEngine';
+import { pinnedQuote } from '../services/workspace';
+import { useI18n } from '../hooks/useI18n';
+
+interface PinnedPairsProps {
+  pinned: string[];
+  activePair: string;
+  apiRates: Record<string, number>;
+  spreads: SpreadMap;
+  spreadWarningPct: number;
+  onOpen: (pair: string) => void;
+  onUnpin: (pair: string) => void;
+}
+
+// Approx rates of every pinned pair at a glance, from the live CB rates and the active profile's spreads
+export const PinnedPairs = ({ pinned, activePair, apiRates, spreads, spreadWarningPct, onOpen, onUnpin }: PinnedPairsProps) => {
+  const { t } = useI18n();
+  const spreadClass = (v: number) => Math.abs(v) > spreadWarningPct ? 'text-rose-600 font-bold' : v >= 0 ? 'text-emerald-600' : 'text-rose-500';
+  const rateCell = (rate: Decimal | null, spread: number | null, currency: string) => rate ? (
+    <span className="flex flex-col items-end">
+      <span className="text-[13px] font-semibold text-gray-900">{formatFixed(rate, rateDecimals(currency))}</span>
+      {spread !== null && <span className={`text-[10px] ${spreadClass(spread)}`}>{formatPercent(spread)}</span>}
+    </span>
+  ) : <span className="text-[11px] text-gray-400">{t('arb.noCb')}</span>;
+
+  return (
+    <div className="bg-white rounded-[24px] shadow-sm p-3 animate-in slide-in-from-top-2 duration-300">
+      <div className="flex items-center gap-1.5 px-1 pb-2 text-[12px] font-semibold text-gray-700"><LayoutDashboard size={14} className="text-[#2866E0]" />{t('dashboard.title')}</div>
+      <div className="grid grid-cols-[1fr_auto_auto_auto_auto] items-center gap-x-3 gap-y-1 text-[10px] text-[#999999] px-1">
+        <span></span><span className="text-right">{t('dashboard.buy')}</span><span className="text-right">{t('dashboard.sell')}</span><span className="text-right">{t('dashboard.cross')}</span><span></span>
+      </div>
+      <div className="space-y-1 mt-1">
+        {pinned.map(pair => {
+          const q = pinnedQuote(pair, apiRates, spreads);
+          return (
+            <div key={pair} className={`grid grid-cols-[1fr_auto_auto_auto_auto] items-center gap-x-3 rounded-xl px-1 py-1.5 ${pair === activePair ? 'bg-blue-50' : ''}`}>
+              <button onClick={() => onOpen(pair)} className="text-left text-[13px] font-bold text-gray-800 active:opacity-60">{q.sourceCurr} → {q.targetCurr}</button>
+              {rateCell(q.buyRate, q.spreadBuy, q.sourceCurr)}
+              {rateCell(q.sellRate, q.spreadSell, q.targetCurr)}
+              {q.spreadCross !== null ? <span className={`text-[12px] text-right ${spreadClass(q.spreadCross)}`}>{formatPercent(q.spreadCross)}</span> : <span className="text-[11px] text-gray-400 text-right">—</span>}
+              <button onClick={() => onUnpin(pair)} title={t('tabs.unpin')} className="text-gray-300 active:text-rose-500"><PinOff size={14} /></button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
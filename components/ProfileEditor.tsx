@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Download, Upload, Link, Lock, Unlock, Check } from 'lucide-react';
+import { SpreadMap } from '../services/calcEngine';
+import { downloadFile, fileSlug } from '../services/files';
+import { ProfilesState, SpreadProfile, createProfile, getActiveProfile, exportProfile, parseSharedProfile, profileName, profileShareLink } from '../services/spreadProfiles';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProfileEditorProps {
+  state: ProfilesState;
+  currencies: string[];
+  onChange: (state: ProfilesState) => void;
+  onClose: () => void;
+}
+
+const cellInput = 'bg-[#F2F3F5] rounded-lg px-2 py-1.5 text-[12px] outline-none w-full text-right';
+
+export const ProfileEditor = ({ state, currencies, onChange, onClose }: ProfileEditorProps) => {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const profile = getActiveProfile(state);
+
+  const updateProfile = (patch: Partial<SpreadProfile>) => onChange({
+    ...state,
+    profiles: state.profiles.map(p => p.id === profile.id ? { ...p, ...patch, updatedAt: Date.now() } : p),
+  });
+
+  const setSpread = (code: string, side: 'buy' | 'sell', val: string) => {
+    const current = profile.spreads[code] || { buy: '0', sell: '0' };
+    const spreads: SpreadMap = { ...profile.spreads, [code]: { ...current, [side]: val.replace(',', '.') } };
+    updateProfile({ spreads });
+  };
+
+  const addProfile = (name: string, spreads: SpreadMap) => {
+    const next = createProfile(name, spreads);
+    onChange({ activeId: next.id, profiles: [...state.profiles, next] });
+  };
+
+  const removeProfile = () => {
+    if (state.profiles.length < 2) return;
+    const rest = state.profiles.filter(p => p.id !== profile.id);
+    onChange({ activeId: rest[0].id, profiles: rest });
+  };
+
+  const importFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => {
+      const shared = parseSharedProfile(text);
+      addProfile(shared.name, shared.spreads);
+      setError(null);
+    }).catch(e => setError(errorMessage(e, t)));
+  };
+
+  const copyLink = () => {
+    const link = profileShareLink(profile);
+    const done = () => { setCopied(true); window.setTimeout(() => setCopied(false), 2000); };
+    if (navigator.share) navigator.share({ title: profileName(profile, t), url: link }).then(done).catch(() => undefined);
+    else navigator.clipboard.writeText(link).then(done).catch(e => setError(String(e)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[92vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('profiles.title')}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+
+        <div className="flex gap-2 overflow-x-auto pb-2 mb-2">
+          {state.profiles.map(p => (
+            <button key={p.id} onClick={() => onChange({ ...state, activeId: p.id })} className={`px-3 py-1.5 rounded-full text-[12px] font-medium whitespace-nowrap ${p.id === profile.id ? 'bg-[#2866E0] text-white' : 'bg-[#F2F3F5] text-gray-600'}`}>{profileName(p, t)}</button>
+          ))}
+          <button onClick={() => addProfile(t('profiles.copyName', { name: profileName(profile, t) }), profile.spreads)} className="px-2.5 py-1.5 rounded-full bg-[#F2F3F5] text-[#2866E0] shrink-0"><Plus size={14} /></button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-3">
+          <input value={profile.name} placeholder={t('profiles.defaultName')} onChange={(e) => updateProfile({ name: e.target.value })} className="flex-1 min-w-0 bg-[#F2F3F5] rounded-xl px-3 py-2 text-[15px] font-semibold outline-none focus:ring-2 focus:ring-[#2866E0]" />
+          <button onClick={() => updateProfile({ locked: !profile.locked })} title={t(profile.locked ? 'profiles.locked' : 'profiles.unlocked')} className={`w-9 h-9 rounded-xl flex items-center justify-center ${profile.locked ? 'bg-amber-100 text-amber-700' : 'bg-[#F2F3F5] text-gray-500'}`}>{profile.locked ? <Lock size={16} /> : <Unlock size={16} />}</button>
+          <button onClick={removeProfile} disabled={state.profiles.length < 2} className="w-9 h-9 rounded-xl bg-[#F2F3F5] flex items-center justify-center text-gray-500 active:text-rose-500 disabled:opacity-30"><Trash2 size={16} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto mb-3">
+          <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 items-center text-[10px] text-gray-400 mb-1 px-1"><span>{t('profiles.currency')}</span><span className="text-right">{t('profiles.buySpread')}</span><span className="text-right">{t('profiles.sellSpread')}</span></div>
+          <div className="space-y-1.5">
+            {currencies.map(code => {
+              const s = profile.spreads[code] || { buy: '0', sell: '0' };
+              return (
+                <div key={code} className="grid grid-cols-[1fr_1fr_1fr] gap-2 items-center">
+                  <span className="text-[13px] font-semibold text-gray-700 px-1">{code}</span>
+                  <input value={s.buy} inputMode="decimal" onChange={(e) => setSpread(code, 'buy', e.target.value)} className={cellInput} />
+                  <input value={s.sell} inputMode="decimal" onChange={(e) => setSpread(code, 'sell', e.target.value)} className={cellInput} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {error && <p className="text-[11px] text-rose-600 mb-2">{error}</p>}
+
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          <button onClick={() => downloadFile(exportProfile(profile), `spread-profile-${fileSlug(profileName(profile, t), 'profile')}.json`, 'application/json')} className="bg-[#F2F3F5] text-[#2866E0] font-semibold py-2.5 rounded-xl text-[13px] flex items-center justify-center gap-1"><Download size={14} />JSON</button>
+          <label className="bg-[#F2F3F5] text-[#2866E0] font-semibold py-2.5 rounded-xl text-[13px] flex items-center justify-center gap-1 cursor-pointer"><Upload size={14} />{t('common.import')}<input type="file" accept=".json,application/json" className="hidden" onChange={(e) => { importFile(e.target.files?.[0]); e.target.value = ''; }} /></label>
+          <button onClick={copyLink} className="bg-[#F2F3F5] text-[#2866E0] font-semibold py-2.5 rounded-xl text-[13px] flex items-center justify-center gap-1">{copied ? <Check size={14} /> : <Link size={14} />}{t(copied ? 'profiles.copied' : 'profiles.link')}</button>
+        </div>
+        <button onClick={onClose} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.done')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { X, FileText, Image as ImageIcon, Link as LinkIcon, Check } from 'lucide-react';
+import { LegFees, hasFees } from '../services/fees';
+import { QuoteState, QUOTE_VALIDITY_MINUTES, createQuoteCard, quoteRows, quoteTitle, quoteText, quoteShareLink, renderQuoteImage } from '../services/quote';
+import { downloadFile, dateStamp } from '../services/files';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface QuoteShareProps {
+  state: Omit<QuoteState, 'validUntil'>;
+  fees: LegFees;
+  onClose: () => void;
+}
+
+type Sent = 'text' | 'image' | 'link';
+
+export const QuoteShare = ({ state, fees, onClose }: QuoteShareProps) => {
+  const { t, locale } = useI18n();
+  const [validMinutes, setValidMinutes] = useState(60);
+  const [showFees, setShowFees] = useState(hasFees(fees));
+  const [sent, setSent] = useState<Sent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The clock starts when the dialog opens, so the validity shown matches what gets sent
+  const [openedAt] = useState(() => Date.now());
+  const quote: QuoteState = { ...state, validUntil: openedAt + validMinutes * 60 * 1000 };
+  const card = createQuoteCard(quote, fees, showFees, openedAt);
+  const link = quoteShareLink(quote);
+
+  const done = (what: Sent) => { setSent(what); setError(null); window.setTimeout(() => setSent(null), 2000); };
+  const fail = (e: unknown) => { if (!(e instanceof DOMException && e.name === 'AbortError')) setError(errorMessage(e, t)); };
+
+  const shareText = () => {
+    if (!card) return;
+    const text = quoteText(card, t, locale, link);
+    if (navigator.share) navigator.share({ title: quoteTitle(card, t), text }).then(() => done('text')).catch(fail);
+    else navigator.clipboard.writeText(text).then(() => done('text')).catch(fail);
+  };
+
+  // Falls back to a download where the browser cannot share files
+  const shareImage = () => {
+    if (!card) return;
+    renderQuoteImage(card, t, locale).then(blob => {
+      const fileName = `quote-${card.sourceCurr}-${card.targetCurr}-${dateStamp()}.png`;
+      const file = new File([blob], fileName, { type: 'image/png' });
+      if (navigator.canShare?.({ files: [file] })) return navigator.share({ title: quoteTitle(card, t), files: [file] });
+      downloadFile(blob, fileName, 'image/png');
+    }).then(() => done('image')).catch(fail);
+  };
+
+  const copyLink = () => {
+    if (navigator.share) navigator.share({ title: card ? quoteTitle(card, t) : undefined, url: link }).then(() => done('link')).catch(fail);
+    else navigator.clipboard.writeText(link).then(() => done('link')).catch(fail);
+  };
+
+  const validityLabel = (min: number) => min < 60 ? t('quote.minutes', { n: min }) : t('quote.hours', { n: min / 60 });
+
+  const action = (what: Sent, icon: React.ReactNode, label: string, onClick: () => void) => (
+    <button onClick={onClick} disabled={!card} className="flex-1 bg-[#F2F3F5] rounded-xl py-2.5 text-[12px] font-semibold text-[#2866E0] flex flex-col items-center gap-1 active:scale-95 transition-transform disabled:opacity-40">
+      {sent === what ? <Check size={18} /> : icon}{sent === what ? t('quote.sent') : label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[92vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('quote.title')}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+
+        <div className="flex-1 overflow-y-auto mb-3">
+          {card ? (
+            <div className="rounded-2xl border border-gray-100 bg-[#F9FAFB] p-4 mb-3">
+              <div className="text-[17px] font-bold text-[#2866E0]">{quoteTitle(card, t)}</div>
+              <div className="text-[11px] text-[#999999] mb-3">{new Date(card.createdAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })}</div>
+              <div className="space-y-1.5">
+                {quoteRows(card, t, locale).map(([label, value], i) => (
+                  <div key={label} className="flex justify-between gap-3 text-[13px]"><span className="text-gray-500">{label}</span><span className={i < 2 ? 'font-bold text-[15px] text-gray-900' : 'font-medium text-gray-900'}>{value}</span></div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-4 mb-3">{t('quote.empty')}</p>
+          )}
+
+          <div className="text-[11px] text-[#999999] font-medium mb-1">{t('quote.validFor')}</div>
+          <div className="bg-[#E5E7EB] p-1 rounded-xl flex text-[13px] font-medium mb-3">
+            {QUOTE_VALIDITY_MINUTES.map(min => (
+              <button key={min} onClick={() => setValidMinutes(min)} className={`flex-1 py-1 rounded-lg transition-all duration-200 ${validMinutes === min ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>{validityLabel(min)}</button>
+            ))}
+          </div>
+
+          {hasFees(fees) && (
+            <label className="flex items-center gap-2 text-[13px] text-gray-700">
+              <input type="checkbox" checked={showFees} onChange={(e) => setShowFees(e.target.checked)} className="w-4 h-4 accent-[#2866E0]" />
+              {t('quote.showFees')}
+            </label>
+          )}
+          {error && <p className="text-[12px] text-rose-600 mt-2">{error}</p>}
+        </div>
+
+        <div className="flex gap-2 mb-3">
+          {action('text', <FileText size={18} />, t('quote.shareText'), shareText)}
+          {action('image', <ImageIcon size={18} />, t('quote.shareImage'), shareImage)}
+          {action('link', <LinkIcon size={18} />, t('quote.shareLink'), copyLink)}
+        </div>
+        <button onClick={onClose} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.done')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { LineChart } from './LineChart';
+import { HistoryRecord, HistoryRange, HISTORY_RANGES, loadHistory, buildSeries } from '../services/rateHistory';
+import { formatFixed, formatPercent } from '../services/calcEngine';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface RateChartsProps {
+  currencies: string[];
+  initialCurrency: string;
+  writeError?: string | null; // the last failed history write, from the calculator
+  onClose: () => void;
+}
+
+const RANGE_LABELS: Record<HistoryRange, MessageKey> = { day: 'charts.day', week: 'charts.week', month: 'charts.month' };
+
+export const RateCharts = ({ currencies, initialCurrency, writeError, onClose }: RateChartsProps) => {
+  const { t } = useI18n();
+  const [currency, setCurrency] = useState(initialCurrency);
+  const [range, setRange] = useState<HistoryRange>('week');
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [now] = useState(() => Date.now());
+  const from = now - HISTORY_RANGES[range];
+
+  useEffect(() => {
+    loadHistory(from).then(setRecords).catch(e => setError(e instanceof Error ? e.message : String(e)));
+  }, [from]);
+
+  const series = useMemo(() => buildSeries(records, currency), [records, currency]);
+  const lastSpread = (pts: { value: number }[]) => pts.length ? formatPercent(pts[pts.length - 1].value) : '—';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[92vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('charts.title')}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+
+        <div className="flex gap-2 mb-3">
+          <select value={currency} onChange={(e) => setCurrency(e.target.value)} className="bg-[#F2F3F5] rounded-lg px-3 py-1.5 text-[13px] font-semibold outline-none">
+            {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <div className="flex-1 bg-[#E5E7EB] p-1 rounded-xl flex text-[13px] font-medium">
+            {(Object.keys(RANGE_LABELS) as HistoryRange[]).map(r => (
+              <button key={r} onClick={() => setRange(r)} className={`flex-1 py-1 rounded-lg transition-all duration-200 ${range === r ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>{t(RANGE_LABELS[r])}</button>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-[11px] text-rose-600 mb-2">{error}</p>}
+        {writeError && <p className="text-[11px] text-rose-600 mb-2">{t('charts.writeError', { error: writeError })}</p>}
+
+        <div className="flex-1 overflow-y-auto space-y-4 mb-3">
+          <div>
+            <div className="text-[12px] font-semibold text-gray-700 mb-1">{t('charts.perUsdt', { currency })}</div>
+            <LineChart from={from} to={now} series={[
+              { label: t('charts.cbRate'), color: '#9CA3AF', points: series.cb },
+              { label: t('charts.p2pBuy'), color: '#2866E0', points: series.buy, dots: true },
+              { label: t('charts.p2pSell'), color: '#10B981', points: series.sell, dots: true },
+            ]} />
+          </div>
+          <div>
+            <div className="flex justify-between text-[12px] font-semibold text-gray-700 mb-1"><span>{t('charts.spreadVsCb')}</span><span className="text-gray-500 font-normal">{t('charts.lastSpreads', { buy: lastSpread(series.buySpread), sell: lastSpread(series.sellSpread) })}</span></div>
+            <LineChart from={from} to={now} zeroLine formatValue={v => `${formatFixed(v, 1)}%`} series={[
+              { label: t('charts.buySpread'), color: '#2866E0', points: series.buySpread, dots: true },
+              { label: t('charts.sellSpread'), color: '#10B981', points: series.sellSpread, dots: true },
+            ]} />
+          </div>
+        </div>
+        <button onClick={onClose} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.done')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState, useMemo } from 'react';
+import { X, ChevronDown, ChevronUp, Trophy } from 'lucide-react';
+import { Decimal } from '../services/decimal';
+import { formatAmount, formatMoney, formatFixed, formatPercent, formatInputString, parseDecimal, calculateSpread, rateDecimals } from '../services/calcEngine';
+import { Route, RouteSettings, RouteAsset, PriceFn, findRoutes } from '../services/routes';
+import { LegFees } from '../services/fees';
+import { useI18n } from '../hooks/useI18n';
+
+interface RouteFinderProps {
+  sourceCurr: string;
+  targetCurr: string;
+  initialAmount: string;
+  settings: RouteSettings;
+  currencies: string[];
+  apiRates: Record<string, number>;
+  price: PriceFn;
+  fees: LegFees;
+  onSettingsChange: (settings: RouteSettings) => void;
+  onSelect: (route: Route, amount: Decimal) => void;
+  onClose: () => void;
+}
+
+const smallInput = 'bg-[#F2F3F5] rounded-lg px-2 py-1 text-[12px] outline-none w-full';
+
+export const RouteFinder = ({ sourceCurr, targetCurr, initialAmount, settings, currencies, apiRates, price, fees, onSettingsChange, onSelect, onClose }: RouteFinderProps) => {
+  const { t } = useI18n();
+  const [amount, setAmount] = useState(initialAmount);
+  const [showConfig, setShowConfig] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const amountDec = parseDecimal(amount);
+  const routes = useMemo(() => findRoutes(sourceCurr, targetCurr, amountDec, settings, price, fees), [sourceCurr, targetCurr, amount, settings, price, fees]);
+  const best = routes[0];
+
+  const updateAsset = (code: string, patch: Partial<RouteAsset>) =>
+    onSettingsChange({ ...settings, assets: settings.assets.map(a => a.code === code ? { ...a, ...patch } : a) });
+  const toggleVia = (code: string) =>
+    onSettingsChange({ ...settings, viaFiats: settings.viaFiats.includes(code) ? settings.viaFiats.filter(c => c !== code) : [...settings.viaFiats, code] });
+
+  const hopSpread = (asset: string, fiat: string, p: Decimal) => {
+    const a = settings.assets.find(x => x.code === asset);
+    const cb = apiRates[fiat];
+    const usd = a ? parseDecimal(a.usdPrice).toNumber() : 0;
+    if (!cb || !usd) return '';
+    const diff = calculateSpread(p.toNumber(), cb * usd);
+    return ` (${formatPercent(diff)})`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[90vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('routes.title', { source: sourceCurr, target: targetCurr })}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+
+        <div className="bg-[#F2F3F5] rounded-xl px-4 py-3 flex justify-between items-center gap-3 mb-3 focus-within:ring-2 focus-within:ring-[#2866E0]">
+          <div className="flex flex-col flex-1 min-w-0"><span className="text-[11px] text-[#999999] font-medium">{t('amount.give')}</span><input type="text" inputMode="decimal" value={amount} onChange={(e) => setAmount(formatInputString(e.target.value))} className="bg-transparent text-[22px] font-semibold text-black outline-none w-full" /></div>
+          <span className="text-[17px] font-medium text-[#999999]">{sourceCurr}</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-3">
+          {routes.length === 0 && <p className="text-sm text-gray-500 text-center py-4">{t('routes.empty')}</p>}
+          {routes.map(route => {
+            const lossPct = route !== best ? best.received.minus(route.received).div(best.received).times(100).toNumber() : 0;
+            const isOpen = expanded === route.id;
+            return (
+              <div key={route.id} className={`rounded-2xl border p-3 ${route === best ? 'border-emerald-200 bg-emerald-50/50' : 'border-gray-100 bg-[#F9FAFB]'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <button onClick={() => setExpanded(isOpen ? null : route.id)} className="flex-1 min-w-0 text-left">
+                    <div className="flex items-center gap-1 text-[12px] text-gray-500 truncate">{route === best && <Trophy size={12} className="text-emerald-600 shrink-0" />}{route.path.join(' → ')}</div>
+                    <div className="text-[17px] font-bold text-gray-900">{formatMoney(route.received, targetCurr)} {targetCurr}</div>
+                    <div className="text-[11px] text-gray-500">1 {targetCurr} = {formatFixed(route.effectiveRate, 4)} {sourceCurr}{lossPct > 0 && <span className="text-rose-500"> · −{formatFixed(lossPct, 2)}%</span>}</div>
+                  </button>
+                  <button onClick={() => onSelect(route, amountDec)} className="px-3 py-1.5 rounded-lg bg-[#2866E0] text-white text-xs font-semibold active:opacity-80">{t('routes.use')}</button>
+                </div>
+                {isOpen && (
+                  <div className="mt-2 pt-2 border-t border-gray-200 text-[11px] text-gray-600 space-y-1">
+                    {route.hops.map((h, i) => (
+                      <div key={i}>
+                        {t('routes.hopBuy', { amount: formatAmount(h.assetAmount, 6), asset: h.asset, price: formatAmount(h.buyPrice, rateDecimals(h.from)), currency: h.from })}{hopSpread(h.asset, h.from, h.buyPrice)},
+                        {' '}{t('routes.hopSell', { price: formatAmount(h.sellPrice, rateDecimals(h.to)), currency: h.to })}{hopSpread(h.asset, h.to, h.sellPrice)} → {formatMoney(h.received, h.to)} {h.to}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <button onClick={() => setShowConfig(!showConfig)} className="flex items-center justify-between text-[13px] font-semibold text-gray-700 py-2">{t('routes.assets')} {showConfig ? <ChevronUp size={16} /> : <ChevronDown size={16} />}</button>
+        {showConfig && (
+          <div className="space-y-2 max-h-[35vh] overflow-y-auto mb-2">
+            <div className="grid grid-cols-[auto_1fr_1fr_1fr_1fr] gap-1 items-center text-[10px] text-gray-400">
+              <span></span><span>{t('routes.usdPrice')}</span><span>{t('routes.buyPct')}</span><span>{t('routes.sellPct')}</span><span>{t('routes.netFee')}</span>
+              {settings.assets.map(a => (
+                <React.Fragment key={a.code}>
+                  <label className="flex items-center gap-1 text-[12px] font-semibold text-gray-700 pr-1"><input type="checkbox" checked={a.enabled} onChange={(e) => updateAsset(a.code, { enabled: e.target.checked })} className="accent-[#2866E0]" />{a.code}</label>
+                  <input value={a.usdPrice} inputMode="decimal" onChange={(e) => updateAsset(a.code, { usdPrice: e.target.value })} className={smallInput} />
+                  <input value={a.buyPremium} inputMode="decimal" onChange={(e) => updateAsset(a.code, { buyPremium: e.target.value })} className={smallInput} />
+                  <input value={a.sellPremium} inputMode="decimal" onChange={(e) => updateAsset(a.code, { sellPremium: e.target.value })} className={smallInput} />
+                  <input value={a.networkFee} inputMode="decimal" onChange={(e) => updateAsset(a.code, { networkFee: e.target.value })} className={smallInput} />
+                </React.Fragment>
+              ))}
+            </div>
+            <div className="text-[11px] text-gray-500 pt-1">{t('routes.via')}</div>
+            <div className="flex flex-wrap gap-1.5">
+              {currencies.filter(c => c !== sourceCurr && c !== targetCurr).map(c => (
+                <button key={c} onClick={() => toggleVia(c)} className={`px-2.5 py-1 rounded-full text-[11px] font-medium ${settings.viaFiats.includes(c) ? 'bg-[#2866E0] text-white' : 'bg-[#F2F3F5] text-gray-600'}`}>{c}</button>
+              ))}
+            </div>
+          </div>
+        )}
+        <button onClick={onClose} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.done')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { X, Lock, LockOpen } from 'lucide-react';
+import { Decimal } from '../services/decimal';
+import { LegFees } from '../services/fees';
+import { formatMoney, formatFixed, formatPercent, formatInputString } from '../services/calcEngine';
+import { MarginUnit, SolverField, SolverResult, SOLVER_FIELDS, heldField, solveTarget } from '../services/solver';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface TargetSolverProps {
+  sourceCurr: string;
+  targetCurr: string;
+  buyRate: string;
+  sellRate: string;
+  amountBuy: string;
+  amountSale: string;
+  apiRates: Record<string, number>;
+  fees: LegFees;
+  spreadWarningPct: number;
+  onApply: (result: SolverResult) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<SolverField, MessageKey> = {
+  give: 'amount.give', receive: 'amount.receive', buyRate: 'rate.buyUsdt', sellRate: 'rate.sellUsdt', margin: 'solver.margin',
+};
+
+// "The client must receive exactly X with a 2% margin" is the most common question
+const DEFAULT_FIXED: SolverField[] = ['receive', 'margin'];
+
+const formatRate = (rate: Decimal) => formatInputString(rate.toString());
+
+// A solved value in the same shape as typed input, so locking it keeps it as is
+const solvedValue = (field: SolverField, result: SolverResult, unit: MarginUnit, sourceCurr: string, targetCurr: string) => {
+  switch (field) {
+    case 'give': return formatMoney(result.give, sourceCurr);
+    case 'receive': return formatMoney(result.receive, targetCurr);
+    case 'buyRate': return formatRate(result.buyRate);
+    case 'sellRate': return formatRate(result.sellRate);
+    case 'margin':
+      if (unit === 'pct') return result.marginPct === null ? '' : formatFixed(result.marginPct, 2);
+      return result.profit ? formatMoney(result.profit, sourceCurr) : '';
+  }
+};
+
+export const TargetSolver = ({ sourceCurr, targetCurr, buyRate, sellRate, amountBuy, amountSale, apiRates, fees, spreadWarningPct, onApply, onClose }: TargetSolverProps) => {
+  const { t } = useI18n();
+  const [fixed, setFixed] = useState<SolverField[]>(DEFAULT_FIXED);
+  const [marginUnit, setMarginUnit] = useState<MarginUnit>('pct');
+  const [values, setValues] = useState<Record<SolverField, string>>({ give: amountBuy, receive: amountSale, buyRate, sellRate, margin: '' });
+
+  const cbBuy = apiRates[sourceCurr];
+  const cbSell = apiRates[targetCurr];
+  const held = heldField(fixed);
+  const result = solveTarget({ fixed, values, marginUnit, cbBuy, cbSell, fees });
+  const needsCb = fixed.includes('margin') && (!cbBuy || !cbSell);
+
+  const changeValue = (field: SolverField, val: string) => setValues(prev => ({ ...prev, [field]: formatInputString(val) }));
+
+  // Locking a third value releases the one locked first; a solved value is locked as shown
+  const lock = (field: SolverField) => {
+    if (fixed.includes(field)) return;
+    if (result && field !== held) setValues(prev => ({ ...prev, [field]: solvedValue(field, result, marginUnit, sourceCurr, targetCurr) }));
+    setFixed([fixed[1], field]);
+  };
+
+  const changeUnit = (unit: MarginUnit) => {
+    if (unit === marginUnit) return;
+    setMarginUnit(unit);
+    setValues(prev => ({ ...prev, margin: result ? solvedValue('margin', result, unit, sourceCurr, targetCurr) : '' }));
+  };
+
+  const currencyFor = (field: SolverField) => field === 'give' || field === 'buyRate' ? sourceCurr : targetCurr;
+
+  const spreadClass = (v: number) => Math.abs(v) > spreadWarningPct ? 'text-rose-600 font-bold' : v >= 0 ? 'text-emerald-600' : 'text-rose-500';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[92vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-1"><h3 className="text-xl font-bold">{t('solver.title')}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+        <p className="text-[12px] text-gray-500 mb-3">{t('solver.hint')}</p>
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-3">
+          {SOLVER_FIELDS.map(field => {
+            const isFixed = fixed.includes(field);
+            const isHeld = field === held;
+            const editable = isFixed || isHeld;
+            const value = editable ? values[field] : result ? solvedValue(field, result, marginUnit, sourceCurr, targetCurr) : '—';
+            return (
+              <div key={field} className={`rounded-xl px-3 py-2 flex items-center gap-2 transition-all ${isFixed ? 'bg-white ring-2 ring-[#2866E0]' : 'bg-[#F2F3F5]'}`}>
+                <button onClick={() => lock(field)} title={t(isFixed ? 'solver.locked' : 'solver.lock')} className={`shrink-0 ${isFixed ? 'text-[#2866E0]' : 'text-[#999999] active:text-[#2866E0]'}`}>{isFixed ? <Lock size={16} /> : <LockOpen size={16} />}</button>
+                <div className="flex flex-col flex-1 min-w-0">
+                  <span className="text-[11px] text-[#999999] font-medium flex items-center gap-1">
+                    {t(FIELD_LABELS[field])}
+                    {isHeld && <span className="text-[9px] bg-gray-200 px-1 rounded text-gray-500">{t('solver.kept')}</span>}
+                    {!editable && <span className="text-[9px] bg-blue-50 px-1 rounded text-[#2866E0]">{t('solver.solved')}</span>}
+                  </span>
+                  <input type="text" inputMode="decimal" value={value} readOnly={!editable} placeholder="0" onChange={(e) => changeValue(field, e.target.value)} className={`bg-transparent text-[18px] font-semibold outline-none w-full ${editable ? 'text-black' : 'text-[#2866E0]'}`} />
+                </div>
+                {field === 'margin' ? (
+                  <div className="bg-[#E5E7EB] p-0.5 rounded-lg flex text-[12px] font-medium shrink-0">
+                    {(['pct', 'amount'] as MarginUnit[]).map(unit => (
+                      <button key={unit} onClick={() => changeUnit(unit)} className={`px-2 py-0.5 rounded-md transition-all ${marginUnit === unit ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>{unit === 'pct' ? '%' : sourceCurr}</button>
+                    ))}
+                  </div>
+                ) : <span className="text-[14px] font-medium text-[#999999] shrink-0">{currencyFor(field)}</span>}
+              </div>
+            );
+          })}
+
+          {result ? (
+            <div className="rounded-xl p-3 bg-[#F9FAFB] border border-gray-100 space-y-1 text-[12px]">
+              <div className="flex justify-between text-gray-600"><span>{t('amount.equivalent')}</span><span>{formatMoney(result.usdt, 'USDT')} USDT</span></div>
+              <div className="flex justify-between text-gray-600"><span>{t('arb.buyFor', { currency: sourceCurr })}</span>{result.spreadBuy !== null ? <span className={spreadClass(result.spreadBuy)}>{formatPercent(result.spreadBuy)}</span> : <span className="text-gray-400">{t('arb.noCb')}</span>}</div>
+              <div className="flex justify-between text-gray-600"><span>{t('arb.sellFor', { currency: targetCurr })}</span>{result.spreadSell !== null ? <span className={spreadClass(result.spreadSell)}>{formatPercent(result.spreadSell)}</span> : <span className="text-gray-400">{t('arb.noCb')}</span>}</div>
+              {result.marginPct !== null && result.profit && (
+                <div className="flex justify-between text-gray-600">
+                  <span>{t('solver.margin')}</span>
+                  <span className={`font-semibold ${result.profit.isNegative() ? 'text-rose-600' : 'text-emerald-700'}`}>{formatPercent(result.marginPct)} · {result.profit.isNegative() ? '−' : '+'}{formatMoney(result.profit.abs(), sourceCurr)} {sourceCurr}</span>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-[12px] text-rose-500 text-center py-2">{t(needsCb ? 'solver.needsCb' : 'solver.noSolution')}</p>
+          )}
+        </div>
+
+        <button onClick={() => result && onApply(result)} disabled={!result} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg disabled:opacity-40">{t('solver.apply')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Layers, AlertTriangle } from 'lucide-react';
+import { LegTier } from '../services/tiers';
+import { formatMoney, formatFixed, formatPercent, calculateSpread, parseDecimal, rateDecimals } from '../services/calcEngine';
+import { useI18n } from '../hooks/useI18n';
+
+interface TierStatusProps {
+  buy: LegTier;
+  sell: LegTier;
+  sourceCurr: string;
+  targetCurr: string;
+  apiRates: Record<string, number>;
+}
+
+const range = (min: string | null, max: string | null, currency: string) => {
+  const fmt = (v: string) => formatMoney(parseDecimal(v, { group: '', decimal: '.' }), currency);
+  return `${min ? fmt(min) : '0'}–${max ? fmt(max) : '∞'} ${currency}`;
+};
+
+// Which volume tier priced each leg, or a warning when the amount fits none of them
+export const TierStatus = ({ buy, sell, sourceCurr, targetCurr, apiRates }: TierStatusProps) => {
+  const { t } = useI18n();
+  const line = (leg: LegTier, currency: string) => {
+    if (leg.status === 'none') return null;
+    if (leg.status === 'outside') {
+      const limits = range(leg.min?.toString() ?? null, leg.max?.toString() ?? null, currency);
+      return (
+        <div key={currency} className="flex items-start gap-1.5 text-amber-700">
+          <AlertTriangle size={13} className="shrink-0 mt-px" />
+          <span>{t('tiers.outside', { currency, limits })}</span>
+        </div>
+      );
+    }
+    const tier = leg.tier!;
+    const cb = apiRates[currency];
+    return (
+      <div key={currency} className="flex items-start gap-1.5 text-emerald-700">
+        <Layers size={13} className="shrink-0 mt-px" />
+        <span>
+          {t('tiers.applied', { name: tier.label || t(tier.side === 'buy' ? 'tiers.sideBuy' : 'tiers.sideSell'), range: range(tier.min || null, tier.max || null, currency) })}
+          {' → '}<b>{formatFixed(leg.rate, rateDecimals(currency))}</b>
+          {cb ? ` (${formatPercent(calculateSpread(leg.rate.toNumber(), cb))})` : ''}
+        </span>
+      </div>
+    );
+  };
+  const lines = [line(buy, sourceCurr), line(sell, targetCurr)].filter(Boolean);
+  if (!lines.length) return null;
+  return <div className="bg-white rounded-[24px] shadow-sm px-4 py-3 text-[12px] space-y-1.5 animate-in slide-in-from-top-2 duration-300">{lines}</div>;
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { VolumeTier, createTier, tierRate } from '../services/tiers';
+import { formatInputString, formatFixed, getNumberFormat, rateDecimals } from '../services/calcEngine';
+import { useI18n } from '../hooks/useI18n';
+
+interface TiersEditorProps {
+  tiers: VolumeTier[];
+  currencies: string[];
+  apiRates: Record<string, number>;
+  defaultCurrency: string;
+  onChange: (tiers: VolumeTier[]) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'bg-[#F2F3F5] rounded-lg px-2 py-1.5 text-[12px] outline-none';
+const inputClass = 'bg-[#F2F3F5] rounded-lg px-2 py-1.5 text-[12px] outline-none min-w-0';
+
+// Limits and values are kept ungrouped so they stay editable in either number format
+const clean = (val: string) => formatInputString(val, { ...getNumberFormat(), group: '' });
+
+export const TiersEditor = ({ tiers, currencies, apiRates, defaultCurrency, onChange, onClose }: TiersEditorProps) => {
+  const { t } = useI18n();
+  const update = (id: string, patch: Partial<VolumeTier>) => onChange(tiers.map(x => x.id === id ? { ...x, ...patch } : x));
+  const remove = (id: string) => onChange(tiers.filter(x => x.id !== id));
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white w-full max-w-sm max-h-[90vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+        <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('settings.tiers')}</h3><button onClick={onClose} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+        <div className="flex-1 overflow-y-auto space-y-3 mb-4">
+          {tiers.length === 0 && <p className="text-sm text-gray-500 text-center py-4">{t('tiers.empty')}</p>}
+          {tiers.map(tier => {
+            const rate = tier.pricing === 'spread' ? tierRate(tier, apiRates[tier.currency]) : null;
+            return (
+              <div key={tier.id} className={`p-3 rounded-2xl border border-gray-100 bg-[#F9FAFB] space-y-2 ${tier.enabled ? '' : 'opacity-50'}`}>
+                <div className="flex items-center gap-2">
+                  <input type="checkbox" checked={tier.enabled} onChange={(e) => update(tier.id, { enabled: e.target.checked })} className="w-4 h-4 accent-[#2866E0]" />
+                  <input value={tier.label} placeholder={t('tiers.advertiser')} onChange={(e) => update(tier.id, { label: e.target.value })} className="flex-1 min-w-0 bg-transparent font-semibold text-[14px] outline-none" />
+                  <button onClick={() => remove(tier.id)} className="text-gray-400 active:text-rose-500"><Trash2 size={16} /></button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <select value={tier.currency} onChange={(e) => update(tier.id, { currency: e.target.value })} className={selectClass}>
+                    {[...new Set([...currencies, tier.currency])].map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                  <select value={tier.side} onChange={(e) => update(tier.id, { side: e.target.value as VolumeTier['side'] })} className={selectClass}>
+                    <option value="buy">{t('tiers.sideBuy')}</option>
+                    <option value="sell">{t('tiers.sideSell')}</option>
+                  </select>
+                  <input type="text" inputMode="decimal" value={tier.min} placeholder={t('tiers.min')} onChange={(e) => update(tier.id, { min: clean(e.target.value) })} className={inputClass} />
+                  <input type="text" inputMode="decimal" value={tier.max} placeholder={t('tiers.max')} onChange={(e) => update(tier.id, { max: clean(e.target.value) })} className={inputClass} />
+                  <div className="col-span-2 flex items-center bg-[#F2F3F5] rounded-lg px-2 gap-2">
+                    <input type="text" inputMode="decimal" value={tier.value} onChange={(e) => update(tier.id, { value: clean(e.target.value) })} className="bg-transparent w-full py-1.5 text-[12px] outline-none" />
+                    {rate && <span className="text-[11px] text-gray-400 whitespace-nowrap">= {formatFixed(rate, rateDecimals(tier.currency))}</span>}
+                    <select value={tier.pricing} onChange={(e) => update(tier.id, { pricing: e.target.value as VolumeTier['pricing'] })} className="bg-transparent text-[12px] outline-none">
+                      <option value="spread">{t('tiers.pricingSpread')}</option>
+                      <option value="rate">{t('tiers.pricingRate')}</option>
+                    </select>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <button onClick={() => onChange([...tiers, createTier({ currency: defaultCurrency })])} className="w-full bg-[#F2F3F5] text-[#2866E0] font-semibold py-3 rounded-xl flex items-center justify-center gap-1 mb-2"><Plus size={18} />{t('tiers.add')}</button>
+        <button onClick={onClose} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.done')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { setNumberFormat } from '../services/calcEngine';
+import { Lang, Translate, LOCALES, NUMBER_FORMATS, translate, detectLang } from '../services/i18n';
+import { loadSettings, updateSettings } from '../services/settings';
+
+interface I18nValue {
+  lang: Lang;
+  locale: string;
+  t: Translate;
+  setLang: (lang: Lang) => void;
+}
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+export const I18nProvider = ({ children }: { children: ReactNode }) => {
+  const [lang, setLang] = useState<Lang>(() => loadSettings().language || detectLang());
+
+  // Parsing and formatting read the active format synchronously, so switch it before children render
+  setNumberFormat(NUMBER_FORMATS[lang]);
+
+  useEffect(() => {
+    updateSettings({ language: lang });
+    document.documentElement.lang = lang;
+  }, [lang]);
+
+  const value = useMemo<I18nValue>(() => ({
+    lang,
+    locale: LOCALES[lang],
+    t: (key, params) => translate(lang, key, params),
+    setLang,
+  }), [lang]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => {
+  const ctx = useContext(I18nContext);
+  if (!ctx) throw new Error('useI18n must be used inside I18nProvider');
+  return ctx;
+};
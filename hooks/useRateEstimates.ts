@@ -0,0 +1,22 @@
+import { useState, useCallback } from 'react';
+import { RateEstimate, RateEstimator, getDefaultEstimator } from '../services/rateEstimate';
+
+// On-demand Gemini estimates per currency; fresh cached answers are shown without a request.
+export const useRateEstimates = (estimator: RateEstimator = getDefaultEstimator()) => {
+  const [estimates, setEstimates] = useState<Record<string, RateEstimate>>({});
+  const [pending, setPending] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, Error>>({});
+
+  const request = useCallback((currency: string, cb: number | undefined, language: string, force = false) => {
+    setPending(prev => [...prev, currency]);
+    setErrors(({ [currency]: _, ...rest }) => rest);
+    estimator.estimate(currency, cb, { force, language })
+      .then(result => setEstimates(prev => ({ ...prev, [currency]: result })))
+      .catch(e => setErrors(prev => ({ ...prev, [currency]: e instanceof Error ? e : new Error(String(e)) })))
+      .finally(() => setPending(prev => prev.filter(c => c !== currency)));
+  }, [estimator]);
+
+  const get = (currency: string) => estimates[currency] || estimator.cached(currency);
+
+  return { available: estimator.available, get, pending, errors, request };
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  RateProvider, RateSnapshot, DEFAULT_PROVIDERS, RATES_REFRESH_INTERVAL,
+  fetchWithFallback, loadCachedSnapshot, saveSnapshot, isSnapshotStale,
+} from '../services/rates';
+
+export type RatesStatus = 'idle' | 'loading' | 'ok' | 'error';
+
+const EMPTY_RATES: Record<string, number> = {};
+
+// Serves the last good snapshot immediately, then refreshes through the provider chain on an interval.
+export const useRates = (providers: RateProvider[] = DEFAULT_PROVIDERS, refreshInterval: number = RATES_REFRESH_INTERVAL) => {
+  const [snapshot, setSnapshot] = useState<RateSnapshot | null>(() => loadCachedSnapshot());
+  const [status, setStatus] = useState<RatesStatus>('idle');
+  const [error, setError] = useState<Error | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('loading');
+    try {
+      const next = await fetchWithFallback(providers, controller.signal);
+      if (controller.signal.aborted) return;
+      saveSnapshot(next);
+      setSnapshot(next);
+      setError(null);
+      setStatus('ok');
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setError(e instanceof Error ? e : new Error(String(e)));
+      setStatus('error');
+    } finally {
+      setNow(Date.now());
+    }
+  }, [providers]);
+
+  useEffect(() => {
+    refresh();
+    const id = window.setInterval(refresh, refreshInterval);
+    const tick = window.setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => { window.clearInterval(id); window.clearInterval(tick); abortRef.current?.abort(); };
+  }, [refresh, refreshInterval]);
+
+  return {
+    rates: snapshot?.rates ?? EMPTY_RATES,
+    snapshot,
+    status,
+    error,
+    isStale: isSnapshotStale(snapshot, now),
+    refresh,
+  };
+};
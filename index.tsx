@@ -1,6 +1,51 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { ChevronDown, ArrowLeftRight, Settings, X, Info, AlertTriangle, Check } from 'lucide-react';
+import { ChevronDown, ArrowLeftRight, Settings, X, Info, AlertTriangle, Check, RefreshCw, Upload, ChevronRight, Route as RouteIcon, BookOpen, Save, SlidersHorizontal, LineChart as ChartIcon, Bell, Table2, Share2, Clock, Download, RotateCcw, Target, Plus, Pin } from 'lucide-react';
+import { useRates } from './hooks/useRates';
+import { I18nProvider, useI18n } from './hooks/useI18n';
+import { useRateEstimates } from './hooks/useRateEstimates';
+import { LANGUAGES, NUMBER_FORMATS, errorMessage } from './services/i18n';
+import { parseRatesJson, loadManualRates, saveManualRates } from './services/rates';
+import {
+  AnchorField, SpreadMap, parseAmount, formatInputString, formatAmount, formatMoney, formatFixed, calculateSpread, rateFromSpread,
+  describeRate, convertAmounts, formatConversion, anchorAmount, parseDecimal, currencyDecimals, rateDecimals, convertNumberFormat,
+} from './services/calcEngine';
+import { Decimal } from './services/decimal';
+import { FeeRule, resolveLegFees, hasFees } from './services/fees';
+import { FeeBreakdown } from './components/FeeBreakdown';
+import { FeesEditor } from './components/FeesEditor';
+import { TiersEditor } from './components/TiersEditor';
+import { TierStatus } from './components/TierStatus';
+import { VolumeTier, matchTiers } from './services/tiers';
+import { ArbitragePanel } from './components/ArbitragePanel';
+import { RouteFinder } from './components/RouteFinder';
+import { BasketView } from './components/BasketView';
+import { TargetSolver } from './components/TargetSolver';
+import { SolverResult } from './services/solver';
+import { PinnedPairs } from './components/PinnedPairs';
+import {
+  PairTab, Workspace, createTab, getActiveTab, saveTab, addTab, closeTab, togglePin, pairKey, splitPair,
+} from './services/workspace';
+import { QuoteShare } from './components/QuoteShare';
+import { QuoteState, readQuoteFromHash } from './services/quote';
+import { CalcMode, ViewMode, loadSettings, updateSettings, exportSettings, parseSettingsBackup, restoreSettings, resetSettings, settingsLoadError } from './services/settings';
+import { downloadFile, dateStamp } from './services/files';
+import { registerServiceWorker } from './services/pwa';
+import { Route, RouteSettings, createPriceFn } from './services/routes';
+import { Journal } from './components/Journal';
+import { addDeal, createDealId } from './services/journal';
+import { ProfileEditor } from './components/ProfileEditor';
+import { RateCharts } from './components/RateCharts';
+import { recordCbSnapshot, recordUserRate, pruneHistory } from './services/rateHistory';
+import { AlertsPanel } from './components/AlertsPanel';
+import { EstimateRow } from './components/EstimateRow';
+import {
+  RateAlert, AlertSettings, AlertContext,
+  processAlerts, acknowledgeAlert, snoozeAlert, alertMessage, currentValue, notify,
+} from './services/alerts';
+import {
+  ProfilesState, SharedProfile, getActiveProfile, createProfile, profileName, readProfileFromHash,
+} from './services/spreadProfiles';
 
 const PRIORITY_CURRENCIES = [
   { code: 'USD', flag: '🇺🇸' },
@@ -19,44 +64,95 @@ const COMMON_FLAGS: Record<string, string> = {
   'CHF': '🇨🇭', 'KRW': '🇰🇷', 'BRL': '🇧🇷', 'INR': '🇮🇳', 'SGD': '🇸🇬', 'PLN': '🇵🇱', 'ILS': '🇮🇱', 'AED': '🇦🇪'
 };
 
+// A tab's canonical values as the calculator shows them; only the anchored amount is stored
+const tabRate = (rate: string) => rate ? formatInputString(rate) : formatFixed(0, 2);
+const tabAmount = (tab: PairTab, field: AnchorField) => tab.anchor === field ? formatInputString(tab.amount) : '';
+
 const App = () => {
-  // --- STATE ---
-  const [sourceCurr, setSourceCurr] = useState(() => localStorage.getItem('p2p_source_curr') || 'RUB');
-  const [targetCurr, setTargetCurr] = useState(() => localStorage.getItem('p2p_target_curr') || 'THB');
-  
-  const [configuredCurrencies, setConfiguredCurrencies] = useState<string[]>(() => {
-    const saved = localStorage.getItem('p2p_configured_currencies');
-    return saved ? JSON.parse(saved) : ['RUB', 'THB', 'USD', 'EUR'];
-  });
+  const { t, lang, locale, setLang } = useI18n();
 
-  const [calcMode, setCalcMode] = useState<'approx' | 'exact'>(() => {
-    return (localStorage.getItem('p2p_calc_mode') as 'approx' | 'exact') || 'approx';
+  // --- STATE ---
+  // A quote link opens in a tab of its own with the quoted pair, rates and amount. The tab always starts in "exact"
+  // mode so the quoted rates are shown as sent, not repriced from the local spreads.
+  const [openedQuote, setOpenedQuote] = useState<QuoteState | null>(() => readQuoteFromHash());
+  const [workspace, setWorkspace] = useState<Workspace>(() => {
+    const saved = loadSettings().workspace;
+    if (!openedQuote) return saved;
+    const { validUntil, ...quoted } = openedQuote;
+    return addTab(saved, createTab({ ...quoted, calcMode: 'exact' }));
   });
-
-  const [showSettings, setShowSettings] = useState(false);
-  const [isProMode, setIsProMode] = useState(() => localStorage.getItem('p2p_pro_mode') === 'true');
+  // The calculator below always works on the active tab; the others wait in `workspace`
+  const [startTab] = useState(() => getActiveTab(workspace));
+  const [sourceCurr, setSourceCurr] = useState(startTab.sourceCurr);
+  const [targetCurr, setTargetCurr] = useState(startTab.targetCurr);
+  
+  const [configuredCurrencies, setConfiguredCurrencies] = useState<string[]>(() => loadSettings().configuredCurrencies);
+
+  const [calcMode, setCalcMode] = useState<CalcMode>(startTab.calcMode);
+
+  const [viewMode, setViewMode] = useState<ViewMode>(() => loadSettings().viewMode);
+
+  // Opens on its own when stored settings had to be reset, so the notice below is seen
+  const [showSettings, setShowSettings] = useState(() => settingsLoadError() !== null);
+  const [showFees, setShowFees] = useState(false);
+  const [showTiers, setShowTiers] = useState(false);
+  const [showRoutes, setShowRoutes] = useState(false);
+  const [showBasket, setShowBasket] = useState(false);
+  const [showSolver, setShowSolver] = useState(false);
+  const [showQuote, setShowQuote] = useState(false);
+  const [showJournal, setShowJournal] = useState(false);
+  const [showCharts, setShowCharts] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [alerts, setAlerts] = useState<RateAlert[]>(() => loadSettings().alerts);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(() => loadSettings().alertSettings);
+  const spreadWarningPct = parseFloat(alertSettings.spreadWarningPct) || 5;
+  const warningDelayMs = Math.max(0, parseFloat(alertSettings.warningDelaySec) || 0) * 1000;
+  const [dealNote, setDealNote] = useState<string | null>(null);
+  const [dealError, setDealError] = useState<string | null>(null);
+  const [dealSaved, setDealSaved] = useState(false);
+  const [routeSettings, setRouteSettings] = useState<RouteSettings>(() => loadSettings().routes);
+  const [isProMode, setIsProMode] = useState(() => loadSettings().proMode);
   
   const [showWarningPopup, setShowWarningPopup] = useState(false);
   const [warningAcknowledged, setWarningAcknowledged] = useState(false);
   const [isCorrectChecked, setIsCorrectChecked] = useState(false);
   const [isSaveChecked, setIsSaveChecked] = useState(false);
 
-  // Spreads are strictly empty/0 by default
-  const [spreads, setSpreads] = useState<Record<string, { buy: string; sell: string }>>(() => {
-    const saved = localStorage.getItem('p2p_spreads');
-    return saved ? JSON.parse(saved) : {};
-  });
-
-  const [buyRate, setBuyRate] = useState<string>('0.00');
-  const [sellRate, setSellRate] = useState<string>('0.00');
-  const [amountBuy, setAmountBuy] = useState<string>('10 000');
-  const [amountSale, setAmountSale] = useState<string>('');
-  const [amountUsdt, setAmountUsdt] = useState<string>('');
+  // Spreads are strictly empty/0 by default; each named profile keeps its own map
+  const [profilesState, setProfilesState] = useState<ProfilesState>(() => loadSettings().profiles);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [sharedProfile, setSharedProfile] = useState<SharedProfile | null>(() => readProfileFromHash());
+  const activeProfile = getActiveProfile(profilesState);
+  const spreads = activeProfile.spreads;
+
+  // Typed rates update the active profile unless it is locked
+  const setSpreads = (update: (prev: SpreadMap) => SpreadMap) => setProfilesState(prev => ({
+    ...prev,
+    profiles: prev.profiles.map(p => p.id === prev.activeId && !p.locked ? { ...p, spreads: update(p.spreads), updatedAt: Date.now() } : p),
+  }));
+
+  const [buyRate, setBuyRate] = useState<string>(() => tabRate(startTab.buyRate));
+  const [sellRate, setSellRate] = useState<string>(() => tabRate(startTab.sellRate));
+  const [amountBuy, setAmountBuy] = useState<string>(() => tabAmount(startTab, 'buy'));
+  const [amountSale, setAmountSale] = useState<string>(() => tabAmount(startTab, 'sell'));
+  const [amountUsdt, setAmountUsdt] = useState<string>(() => tabAmount(startTab, 'usdt'));
   
   // Track which field was edited to keep calculations consistent during auto-updates
-  const [lastEditedField, setLastEditedField] = useState<'buy' | 'sell' | 'usdt'>('buy');
-
-  const [apiRates, setApiRates] = useState<Record<string, number>>({});
+  const [lastEditedField, setLastEditedField] = useState<AnchorField>(startTab.anchor);
+
+  const [feeRules, setFeeRules] = useState<FeeRule[]>(() => loadSettings().fees);
+  const legFees = useMemo(() => resolveLegFees(feeRules, sourceCurr, targetCurr), [feeRules, sourceCurr, targetCurr]);
+  const [volumeTiers, setVolumeTiers] = useState<VolumeTier[]>(() => loadSettings().tiers);
+
+  const { rates: apiRates, snapshot: rateSnapshot, status: ratesStatus, error: ratesError, isStale: ratesStale, refresh: refreshRates } = useRates();
+  const estimates = useRateEstimates();
+  const [manualRatesCount, setManualRatesCount] = useState(() => Object.keys(loadManualRates()?.rates || {}).length);
+  const [manualRatesError, setManualRatesError] = useState<string | null>(null);
+  const [settingsError, setSettingsError] = useState<string | null>(() => {
+    const error = settingsLoadError();
+    return error ? errorMessage(error, t) : null;
+  });
+  const [confirmReset, setConfirmReset] = useState(false);
 
   const allAvailableCurrencies = useMemo(() => {
     const apiCodes = Object.keys(apiRates);
@@ -69,75 +165,73 @@ const App = () => {
   const lastSource = useRef(sourceCurr);
   const lastTarget = useRef(targetCurr);
   const warningTimer = useRef<number | null>(null);
+  const userRateEdited = useRef(false);
+  const numberFormat = useRef(NUMBER_FORMATS[lang]);
 
   // --- HELPERS ---
-  const p = (val: string) => {
-    if (!val) return 0;
-    const cleaned = val.toString().replace(/\s/g, '').replace(',', '.');
-    return parseFloat(cleaned) || 0;
-  };
-
-  const formatInputString = (val: string) => {
-    let clean = val.replace(/,/g, '.').replace(/[^\d.-]/g, '');
-    const parts = clean.split('.');
-    if (parts.length > 2) clean = parts[0] + '.' + parts.slice(1).join('');
-    const dotIndex = clean.indexOf('.');
-    if (dotIndex !== -1) {
-       const intPart = clean.substring(0, dotIndex);
-       const decPart = clean.substring(dotIndex + 1);
-       return intPart.replace(/\B(?=(\d{3})+(?!\d))/g, " ") + '.' + decPart;
-    } else {
-       return clean.replace(/\B(?=(\d{3})+(?!\d))/g, " ");
-    }
-  };
-
-  const fmt = (num: number, decimals: number = 2) => {
-    if (!num && num !== 0) return '';
-    if (isNaN(num)) return '';
-    const str = Number.isInteger(num) ? num.toString() : num.toFixed(decimals);
-    return formatInputString(str);
-  };
+  const p = parseAmount;
+  const fmt = formatAmount;
 
   const markAsConfigured = (curr: string) => {
     if (!configuredCurrencies.includes(curr)) {
       const next = [...configuredCurrencies, curr];
       setConfiguredCurrencies(next);
-      localStorage.setItem('p2p_configured_currencies', JSON.stringify(next));
+      updateSettings({ configuredCurrencies: next });
     }
   };
 
-  const calculateSpread = (r: number, cb: number) => {
-    if (!r || !cb) return 0;
-    if (Math.abs(r - cb) < 0.00000001) return 0;
-    return ((r - cb) / cb) * 100;
+  const getRateInfo = (rateStr: string, currency: string) => describeRate(rateStr, apiRates[currency], rateDecimals(currency));
+
+  // Writes the two non-anchored amounts; the anchored field keeps whatever the user typed.
+  // A matching volume tier overrides the typed rate of its leg
+  const applyConversion = (anchor: AnchorField, amount: string, bRate: Decimal | string, sRate: Decimal | string, onlyPositive = false) => {
+    const { result } = matchTiers({ tiers: volumeTiers, sourceCurr, targetCurr, apiRates, buyRate: bRate, sellRate: sRate, anchor, amount, fees: legFees });
+    if (!result || (onlyPositive && !result[anchor].isPositive())) return;
+    const out = formatConversion(result, { buy: currencyDecimals(sourceCurr), sell: currencyDecimals(targetCurr) });
+    if (anchor !== 'buy') setAmountBuy(out.amountBuy);
+    if (anchor !== 'sell') setAmountSale(out.amountSale);
+    if (anchor !== 'usdt') setAmountUsdt(out.amountUsdt);
   };
 
-  const getRateInfo = (rateStr: string, currency: string) => {
-    const r = p(rateStr);
-    const cb = apiRates[currency];
-    if (!r || !cb) return null;
-    
-    const diff = calculateSpread(r, cb);
-    const displayPrecision = 2; // Fixed 2 decimal places for display
-    const absDiff = Math.abs(diff);
-    const zeroThreshold = 0.005;
-    const diffStr = absDiff < zeroThreshold ? "0.00%" : (diff > 0 ? "+" : "-") + absDiff.toFixed(displayPrecision) + "%";
-
-    return { 
-      cb: cb.toFixed(displayPrecision), 
-      set: r.toFixed(displayPrecision), 
-      diff: diffStr, 
-      diffVal: diff 
+  const requestEstimate = (currency: string, force: boolean) =>
+    estimates.request(currency, apiRates[currency], LANGUAGES.find(l => l.code === lang)?.englishName || 'English', force);
+
+  const currentTab = (id: string): PairTab => {
+    const amount = parseDecimal(anchorAmount(lastEditedField, { amountBuy, amountSale, amountUsdt }));
+    const rate = (val: string) => parseDecimal(val).isPositive() ? parseDecimal(val).toString() : '';
+    return {
+      id, sourceCurr, targetCurr, calcMode,
+      buyRate: rate(buyRate), sellRate: rate(sellRate),
+      anchor: lastEditedField, amount: amount.isPositive() ? amount.toString() : '',
     };
   };
 
   const getSpreadFor = (code: string) => spreads[code] || { buy: '0.000000', sell: '0.000000' };
 
   // --- EFFECTS ---
-  useEffect(() => { localStorage.setItem('p2p_spreads', JSON.stringify(spreads)); }, [spreads]);
-  useEffect(() => { localStorage.setItem('p2p_pro_mode', isProMode.toString()); }, [isProMode]);
-  useEffect(() => { localStorage.setItem('p2p_calc_mode', calcMode); }, [calcMode]);
-  useEffect(() => { localStorage.setItem('p2p_source_curr', sourceCurr); localStorage.setItem('p2p_target_curr', targetCurr); }, [sourceCurr, targetCurr]);
+  useEffect(() => { updateSettings({ profiles: profilesState }); }, [profilesState]);
+  useEffect(() => { updateSettings({ fees: feeRules }); }, [feeRules]);
+  useEffect(() => { updateSettings({ tiers: volumeTiers }); }, [volumeTiers]);
+  useEffect(() => { updateSettings({ routes: routeSettings }); }, [routeSettings]);
+  useEffect(() => { updateSettings({ proMode: isProMode }); }, [isProMode]);
+  useEffect(() => { updateSettings({ viewMode }); }, [viewMode]);
+  useEffect(() => { updateSettings({ workspace }); }, [workspace]);
+
+  // The working pair is written back into its tab, so every tab comes back after a reload as it was left
+  useEffect(() => {
+    setWorkspace(prev => saveTab(prev, currentTab(prev.activeId)));
+  }, [sourceCurr, targetCurr, calcMode, buyRate, sellRate, lastEditedField, amountBuy, amountSale, amountUsdt]);
+
+  // Typed rates and amounts keep their digits when the language switches the number format
+  useEffect(() => {
+    const from = numberFormat.current;
+    const to = NUMBER_FORMATS[lang];
+    if (from === to) return;
+    numberFormat.current = to;
+    const convert = (val: string) => convertNumberFormat(val, from, to);
+    setBuyRate(convert); setSellRate(convert);
+    setAmountBuy(convert); setAmountSale(convert); setAmountUsdt(convert);
+  }, [lang]);
 
   useEffect(() => {
     const cbBuy = apiRates[sourceCurr];
@@ -149,30 +243,66 @@ const App = () => {
     if (isProMode && cbBuy && cbSell) {
       const bSpread = Math.abs(calculateSpread(bVal, cbBuy));
       const sSpread = Math.abs(calculateSpread(sVal, cbSell));
-      if (bSpread > 5 || sSpread > 5) hasExtremeSpread = true;
+      if (bSpread > spreadWarningPct || sSpread > spreadWarningPct) hasExtremeSpread = true;
     }
     if (warningTimer.current) { clearTimeout(warningTimer.current); warningTimer.current = null; }
     if (hasExtremeSpread) {
         if (!warningAcknowledged) {
-            warningTimer.current = window.setTimeout(() => setShowWarningPopup(true), 3000);
+            warningTimer.current = window.setTimeout(() => setShowWarningPopup(true), warningDelayMs);
         }
     } else {
-      localStorage.setItem('p2p_last_buy_rate', buyRate);
-      localStorage.setItem('p2p_last_sell_rate', sellRate);
       setWarningAcknowledged(false);
       setShowWarningPopup(false);
       setIsCorrectChecked(false);
       setIsSaveChecked(false);
     }
     return () => { if (warningTimer.current) clearTimeout(warningTimer.current); };
-  }, [buyRate, sellRate, isProMode, apiRates, sourceCurr, targetCurr, warningAcknowledged]);
+  }, [buyRate, sellRate, isProMode, apiRates, sourceCurr, targetCurr, warningAcknowledged, spreadWarningPct, warningDelayMs]);
+
+  // --- ALERTS ---
+  useEffect(() => { updateSettings({ alerts }); }, [alerts]);
+  useEffect(() => { updateSettings({ alertSettings }); }, [alertSettings]);
+
+  const alertContext = useMemo<AlertContext>(() => {
+    const enteredRates: AlertContext['enteredRates'] = { [sourceCurr]: { buy: p(buyRate) } };
+    enteredRates[targetCurr] = { ...enteredRates[targetCurr], sell: p(sellRate) };
+    return { apiRates, spreads, enteredRates };
+  }, [apiRates, spreads, sourceCurr, targetCurr, buyRate, sellRate]);
 
   useEffect(() => {
-    fetch('https://open.er-api.com/v6/latest/USD')
-      .then(res => res.json())
-      .then(data => { if (data && data.rates) setApiRates(data.rates); })
-      .catch(e => console.error("Rate fetch error", e));
-  }, []);
+    const { alerts: next, fired } = processAlerts(alerts, alertContext);
+    if (next !== alerts) setAlerts(next);
+    if (alertSettings.notifications) fired.forEach(f => notify(t('alerts.notificationTitle'), alertMessage(f.alert, f.value, t)));
+  }, [alertContext, alerts]);
+
+  const activeAlerts = alerts.filter(a => a.enabled && a.triggeredAt !== null && !a.acknowledged);
+  const updateAlert = (id: string, fn: (a: RateAlert) => RateAlert) => setAlerts(prev => prev.map(a => a.id === id ? fn(a) : a));
+
+  // --- RATE HISTORY ---
+  // Write failures are kept for the charts dialog; a later successful write clears them
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const historyFailed = (e: unknown) => setHistoryError(e instanceof Error ? e.message : String(e));
+
+  useEffect(() => { pruneHistory().catch(historyFailed); }, []);
+
+  useEffect(() => {
+    if (!rateSnapshot || ratesStatus !== 'ok') return;
+    recordCbSnapshot(rateSnapshot, [...new Set([...configuredCurrencies, sourceCurr, targetCurr])])
+      .then(() => setHistoryError(null), historyFailed);
+  }, [rateSnapshot]);
+
+  // Typed rates are recorded once the user pauses typing
+  useEffect(() => {
+    if (!userRateEdited.current) return;
+    const timer = window.setTimeout(() => {
+      userRateEdited.current = false;
+      Promise.all([
+        recordUserRate(sourceCurr, 'buy', p(buyRate), apiRates[sourceCurr] ?? null),
+        recordUserRate(targetCurr, 'sell', p(sellRate), apiRates[targetCurr] ?? null),
+      ]).then(() => setHistoryError(null), historyFailed);
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [buyRate, sellRate]);
 
   const recalculateRates = useCallback(() => {
     const cbBuy = apiRates[sourceCurr];
@@ -183,70 +313,40 @@ const App = () => {
     if ((isProMode && calcMode === 'approx') || currencyChanged || p(buyRate) === 0) {
       const sprBuy = getSpreadFor(sourceCurr);
       const sprSell = getSpreadFor(targetCurr);
-      const newBuyRate = cbBuy * (1 + parseFloat(sprBuy.buy) / 100);
-      const newSellRate = cbSell * (1 + parseFloat(sprSell.sell) / 100);
-      const fBuy = fmt(newBuyRate);
-      const fSell = fmt(newSellRate);
-      setBuyRate(fBuy);
-      setSellRate(fSell);
+      const newBuyRate = rateFromSpread(cbBuy, sprBuy.buy);
+      const newSellRate = rateFromSpread(cbSell, sprSell.sell);
+      setBuyRate(fmt(newBuyRate, rateDecimals(sourceCurr)));
+      setSellRate(fmt(newSellRate, rateDecimals(targetCurr)));
 
       // Re-calculate based on the last field the user was interacting with
-      if (lastEditedField === 'buy') {
-        const buyAmt = p(amountBuy);
-        if (buyAmt > 0) {
-          const usdt = buyAmt / newBuyRate;
-          setAmountUsdt(fmt(usdt));
-          setAmountSale(fmt(usdt * newSellRate));
-        }
-      } else if (lastEditedField === 'sell') {
-        const sellAmt = p(amountSale);
-        if (sellAmt > 0) {
-          const usdt = sellAmt / newSellRate;
-          setAmountUsdt(fmt(usdt));
-          setAmountBuy(fmt(usdt * newBuyRate));
-        }
-      } else {
-        const usdtAmt = p(amountUsdt);
-        if (usdtAmt > 0) {
-          setAmountBuy(fmt(usdtAmt * newBuyRate));
-          setAmountSale(fmt(usdtAmt * newSellRate));
-        }
-      }
+      applyConversion(lastEditedField, anchorAmount(lastEditedField, { amountBuy, amountSale, amountUsdt }), newBuyRate, newSellRate, true);
     }
     lastSource.current = sourceCurr;
     lastTarget.current = targetCurr;
-  }, [isProMode, calcMode, apiRates, sourceCurr, targetCurr, spreads, amountBuy, amountSale, amountUsdt, lastEditedField]);
+  }, [isProMode, calcMode, apiRates, sourceCurr, targetCurr, spreads, amountBuy, amountSale, amountUsdt, lastEditedField, legFees]);
 
   useEffect(() => { recalculateRates(); }, [recalculateRates]);
 
-  // --- HANDLERS ---
-  const handleSaleChange = (val: string) => {
-    setLastEditedField('sell');
-    const formatted = formatInputString(val); setAmountSale(formatted);
-    const sRate = p(sellRate); const bRate = p(buyRate); const targetVal = p(formatted);
-    if (sRate > 0 && bRate > 0) {
-      const usdt = targetVal / sRate; setAmountUsdt(fmt(usdt)); setAmountBuy(fmt(usdt * bRate));
-    }
-  };
+  // Fee, tier and tab changes re-flow the chain from the anchored amount, in any mode
+  useEffect(() => {
+    applyConversion(lastEditedField, anchorAmount(lastEditedField, { amountBuy, amountSale, amountUsdt }), buyRate, sellRate, true);
+  }, [legFees, volumeTiers, workspace.activeId]);
 
-  const handleBuyChange = (val: string) => {
-    setLastEditedField('buy');
-    const formatted = formatInputString(val); setAmountBuy(formatted);
-    const sRate = p(sellRate); const bRate = p(buyRate); const sourceVal = p(formatted);
-    if (bRate > 0 && sRate > 0) {
-      const usdt = sourceVal / bRate; setAmountUsdt(fmt(usdt)); setAmountSale(fmt(usdt * sRate));
-    }
+  // --- HANDLERS ---
+  const handleAmountChange = (field: AnchorField, val: string) => {
+    setLastEditedField(field);
+    const formatted = formatInputString(val);
+    if (field === 'buy') setAmountBuy(formatted); else if (field === 'sell') setAmountSale(formatted); else setAmountUsdt(formatted);
+    applyConversion(field, formatted, buyRate, sellRate);
   };
 
-  const handleUsdtChange = (val: string) => {
-    setLastEditedField('usdt');
-    const formatted = formatInputString(val); setAmountUsdt(formatted);
-    const sRate = p(sellRate); const bRate = p(buyRate); const usdtVal = p(formatted);
-    if (sRate > 0 && bRate > 0) { setAmountBuy(fmt(usdtVal * bRate)); setAmountSale(fmt(usdtVal * sRate)); }
-  };
+  const handleBuyChange = (val: string) => handleAmountChange('buy', val);
+  const handleSaleChange = (val: string) => handleAmountChange('sell', val);
+  const handleUsdtChange = (val: string) => handleAmountChange('usdt', val);
 
   const updateRates = (newBuyRate: string, newSellRate: string) => {
     markAsConfigured(sourceCurr); markAsConfigured(targetCurr);
+    userRateEdited.current = true;
     const formattedBuy = formatInputString(newBuyRate); const formattedSell = formatInputString(newSellRate);
     setBuyRate(formattedBuy); setSellRate(formattedSell);
     const bVal = p(formattedBuy); const sVal = p(formattedSell);
@@ -259,24 +359,194 @@ const App = () => {
        }));
     }
     // After manual rate change, update amounts based on the last edited field
-    if (lastEditedField === 'buy') {
-      const buyAmt = p(amountBuy);
-      if (bVal > 0 && sVal > 0 && buyAmt > 0) {
-        const usdt = buyAmt / bVal; setAmountUsdt(fmt(usdt)); setAmountSale(fmt(usdt * sVal));
-      }
-    } else if (lastEditedField === 'sell') {
-      const sellAmt = p(amountSale);
-      if (bVal > 0 && sVal > 0 && sellAmt > 0) {
-        const usdt = sellAmt / sVal; setAmountUsdt(fmt(usdt)); setAmountBuy(fmt(usdt * bVal));
-      }
-    } else {
-      const usdtAmt = p(amountUsdt);
-      if (bVal > 0 && sVal > 0 && usdtAmt > 0) {
-        setAmountBuy(fmt(usdtAmt * bVal)); setAmountSale(fmt(usdtAmt * sVal));
-      }
+    applyConversion(lastEditedField, anchorAmount(lastEditedField, { amountBuy, amountSale, amountUsdt }), formattedBuy, formattedSell, true);
+  };
+
+  // The USDT leg of the current pair is priced at the rates typed into the calculator
+  const routePrice = useMemo(() => createPriceFn(apiRates, spreads, routeSettings.assets, {
+    [`USDT:${sourceCurr}:buy`]: parseDecimal(buyRate),
+    [`USDT:${targetCurr}:sell`]: parseDecimal(sellRate),
+  }), [apiRates, spreads, routeSettings, sourceCurr, targetCurr, buyRate, sellRate]);
+
+  // Expresses the chosen route as USDT-equivalent buy/sell rates so the main calculator reproduces its result
+  // The route's rates go in unrounded and skip the volume tiers, so the calculator lands on the route's total
+  const loadRoute = (route: Route, amount: Decimal) => {
+    const newBuy = formatInputString(route.buyRate.toString());
+    const newSell = formatInputString(route.sellRate.toString());
+    const give = formatMoney(amount, sourceCurr);
+    const result = convertAmounts({ buyRate: route.buyRate, sellRate: route.sellRate, anchor: 'buy', amount, fees: legFees });
+    if (!result) return;
+    const out = formatConversion(result, { buy: currencyDecimals(sourceCurr), sell: currencyDecimals(targetCurr) });
+    setCalcMode('exact');
+    setBuyRate(newBuy);
+    setSellRate(newSell);
+    setLastEditedField('buy');
+    setAmountBuy(give);
+    setAmountSale(out.amountSale);
+    setAmountUsdt(out.amountUsdt);
+    setShowRoutes(false);
+  };
+
+  // Solved rates go in as exact rates; the amount the solver kept fixed stays anchored
+  const applySolved = (result: SolverResult) => {
+    const newBuy = formatInputString(result.buyRate.toString());
+    const newSell = formatInputString(result.sellRate.toString());
+    const amount = result.anchor === 'buy' ? formatMoney(result.give, sourceCurr) : formatMoney(result.receive, targetCurr);
+    setCalcMode('exact');
+    setViewMode('convert');
+    setBuyRate(newBuy);
+    setSellRate(newSell);
+    setLastEditedField(result.anchor);
+    if (result.anchor === 'buy') setAmountBuy(amount); else setAmountSale(amount);
+    applyConversion(result.anchor, amount, newBuy, newSell);
+    setShowSolver(false);
+  };
+
+  // --- TABS ---
+  // Only the anchored amount is restored; the re-flow effect fills in the other two for the tab's pair
+  const loadTab = (tab: PairTab) => {
+    // The tab brings its own rates, so recalculateRates must not take its pair for a currency change
+    lastSource.current = tab.sourceCurr;
+    lastTarget.current = tab.targetCurr;
+    setSourceCurr(tab.sourceCurr);
+    setTargetCurr(tab.targetCurr);
+    setCalcMode(tab.calcMode);
+    setBuyRate(tabRate(tab.buyRate));
+    setSellRate(tabRate(tab.sellRate));
+    setLastEditedField(tab.anchor);
+    setAmountBuy(tabAmount(tab, 'buy'));
+    setAmountSale(tabAmount(tab, 'sell'));
+    setAmountUsdt(tabAmount(tab, 'usdt'));
+  };
+
+  const switchTab = (id: string) => {
+    const tab = workspace.tabs.find(x => x.id === id);
+    if (!tab || id === workspace.activeId) return;
+    setWorkspace(prev => ({ ...saveTab(prev, currentTab(prev.activeId)), activeId: id }));
+    loadTab(tab);
+  };
+
+  const openTab = (tab: PairTab) => {
+    setWorkspace(prev => addTab(saveTab(prev, currentTab(prev.activeId)), tab));
+    loadTab(tab);
+  };
+
+  // A new tab starts as a copy of the current one, ready for another pair or another set of rates
+  const duplicateTab = () => {
+    const { id, ...state } = currentTab(workspace.activeId);
+    openTab(createTab(state));
+  };
+
+  const closeWorkspaceTab = (id: string) => {
+    const next = closeTab(workspace, id);
+    if (next.activeId !== workspace.activeId) loadTab(getActiveTab(next));
+    setWorkspace(next);
+  };
+
+  // Pinned pairs open in their existing tab, or in a new one priced from the spreads
+  const openPair = (pair: string) => {
+    const { sourceCurr: src, targetCurr: dst } = splitPair(pair);
+    const existing = workspace.tabs.find(x => x.sourceCurr === src && x.targetCurr === dst);
+    if (existing) switchTab(existing.id);
+    else openTab(createTab({ sourceCurr: src, targetCurr: dst, calcMode }));
+    setViewMode('convert');
+  };
+
+  const currentPair = pairKey(sourceCurr, targetCurr);
+
+  // Switching the target re-prices the pair from its saved spreads, keeping the Give amount anchored
+  const openBasketRow = (currency: string, amount: string) => {
+    setViewMode('convert');
+    setLastEditedField('buy');
+    setAmountBuy(amount);
+    setTargetCurr(currency);
+    setShowBasket(false);
+  };
+
+  const openDealNote = () => {
+    setDealError(null);
+    setDealNote('');
+  };
+
+  const saveDeal = () => {
+    const cbBuy = apiRates[sourceCurr] ?? null;
+    const cbSell = apiRates[targetCurr] ?? null;
+    addDeal({
+      id: createDealId(),
+      createdAt: Date.now(),
+      sourceCurr, targetCurr, cbBuy, cbSell,
+      // Stored as plain numbers; the journal formats them for the current locale. Rates are the ones
+      // actually applied, so a matched volume tier is recorded instead of the typed rate.
+      buyRate: tierMatch.buy.rate.toString(),
+      sellRate: tierMatch.sell.rate.toString(),
+      spreadBuy: cbBuy ? calculateSpread(tierMatch.buy.rate.toNumber(), cbBuy) : null,
+      spreadSell: cbSell ? calculateSpread(tierMatch.sell.rate.toNumber(), cbSell) : null,
+      amountBuy: parseDecimal(amountBuy).toString(),
+      amountSale: parseDecimal(amountSale).toString(),
+      amountUsdt: parseDecimal(amountUsdt).toString(),
+      note: (dealNote || '').trim(),
+    }).then(() => {
+      setDealNote(null);
+      setDealSaved(true);
+      window.setTimeout(() => setDealSaved(false), 2000);
+    }).catch(e => setDealError(e instanceof Error ? e.message : String(e)));
+  };
+
+  const closeSharedProfile = (accept: boolean) => {
+    if (accept && sharedProfile) {
+      const profile = createProfile(sharedProfile.name, sharedProfile.spreads);
+      setProfilesState(prev => ({ activeId: profile.id, profiles: [...prev.profiles, profile] }));
     }
+    setSharedProfile(null);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  // The quote is already applied to the calculator; dropping the hash keeps a reload from re-applying it
+  useEffect(() => {
+    if (openedQuote) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, []);
+
+  const quoteState = (): Omit<QuoteState, 'validUntil'> => ({
+    sourceCurr, targetCurr, calcMode,
+    buyRate: tierMatch.buy.rate.toString(),
+    sellRate: tierMatch.sell.rate.toString(),
+    anchor: lastEditedField,
+    amount: parseDecimal(anchorAmount(lastEditedField, { amountBuy, amountSale, amountUsdt })).toString(),
+  });
+
+  const handleManualRatesFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => {
+      const rates = parseRatesJson(text);
+      saveManualRates(rates);
+      setManualRatesCount(Object.keys(rates).length);
+      setManualRatesError(null);
+      if (!rateSnapshot) refreshRates();
+    }).catch(e => setManualRatesError(errorMessage(e, t)));
   };
 
+  const clearManualRates = () => { saveManualRates(null); setManualRatesCount(0); setManualRatesError(null); };
+
+  // --- SETTINGS BACKUP ---
+  // All state is initialised from the store, so a reload applies a restore or reset everywhere at once
+  const backupSettings = () => downloadFile(exportSettings(), `p2p-settings-${dateStamp()}.json`, 'application/json');
+
+  const handleSettingsFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => {
+      restoreSettings(parseSettingsBackup(text));
+      window.location.reload();
+    }).catch(e => setSettingsError(errorMessage(e, t)));
+  };
+
+  const resetAllSettings = () => {
+    if (!confirmReset) { setConfirmReset(true); return; }
+    resetSettings();
+    window.location.reload();
+  };
+
+  const formatRatesTime = (ts: number) => new Date(ts).toLocaleString(locale, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
   const getFlag = (code: string) => {
       const priority = PRIORITY_CURRENCIES.find(c => c.code === code);
       return priority ? priority.flag : (COMMON_FLAGS[code] || '🏳️');
@@ -284,6 +554,12 @@ const App = () => {
 
   const buyInfo = getRateInfo(buyRate, sourceCurr);
   const sellInfo = getRateInfo(sellRate, targetCurr);
+  const tierMatch = matchTiers({
+    tiers: volumeTiers, sourceCurr, targetCurr, apiRates, buyRate, sellRate, fees: legFees,
+    anchor: lastEditedField, amount: anchorAmount(lastEditedField, { amountBuy, amountSale, amountUsdt }),
+  });
+  const feesApplied = hasFees(legFees);
+  const conversion = feesApplied ? tierMatch.result : null;
 
   return (
     <div className="min-h-screen w-full bg-[#F2F3F5] text-[#333333] flex flex-col font-sans relative overflow-x-hidden">
@@ -298,22 +574,85 @@ const App = () => {
            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm"></div>
            <div className="bg-white w-full max-w-xs rounded-[28px] p-6 relative z-10 animate-in zoom-in-95 duration-200 shadow-2xl flex flex-col">
               <div className="w-14 h-14 bg-rose-50 rounded-full flex items-center justify-center mb-4 mx-auto text-rose-500 shadow-sm border border-rose-100"><AlertTriangle size={30} /></div>
-              <p className="text-[16px] font-bold text-gray-900 leading-snug mb-6 text-center">Spread больше 5% проверьте выбранную валюту</p>
+              <p className="text-[16px] font-bold text-gray-900 leading-snug mb-6 text-center">{t('warning.title', { pct: spreadWarningPct })}</p>
               <div className="space-y-4 mb-8">
                  <div className="flex items-center gap-3 cursor-pointer select-none py-1" onClick={() => setIsCorrectChecked(!isCorrectChecked)}>
                    <div className={`w-6 h-6 rounded-lg border flex items-center justify-center transition-all ${isCorrectChecked ? 'bg-rose-600 border-rose-600 shadow-md' : 'bg-[#F2F3F5] border-gray-200'}`}>{isCorrectChecked && <Check size={16} className="text-white" strokeWidth={3} />}</div>
-                   <span className={`text-[15px] font-bold transition-colors ${isCorrectChecked ? 'text-gray-900' : 'text-gray-400'}`}>Валюта верная</span>
+                   <span className={`text-[15px] font-bold transition-colors ${isCorrectChecked ? 'text-gray-900' : 'text-gray-400'}`}>{t('warning.currencyCorrect')}</span>
                  </div>
                  <div className="flex items-center gap-3 cursor-pointer select-none py-1" onClick={() => setIsSaveChecked(!isSaveChecked)}>
                    <div className={`w-6 h-6 rounded-lg border flex items-center justify-center transition-all ${isSaveChecked ? 'bg-rose-600 border-rose-600 shadow-md' : 'bg-[#F2F3F5] border-gray-200'}`}>{isSaveChecked && <Check size={16} className="text-white" strokeWidth={3} />}</div>
-                   <span className={`text-[15px] font-bold transition-colors ${isSaveChecked ? 'text-gray-900' : 'text-gray-400'}`}>Запомнить Spread</span>
+                   <span className={`text-[15px] font-bold transition-colors ${isSaveChecked ? 'text-gray-900' : 'text-gray-400'}`}>{t('warning.rememberSpread')}</span>
                  </div>
               </div>
-              <button onClick={() => { if(isSaveChecked) { markAsConfigured(sourceCurr); markAsConfigured(targetCurr); } setWarningAcknowledged(true); setShowWarningPopup(false); }} className="w-full py-4 rounded-2xl text-[16px] font-bold shadow-lg transition-all active:scale-[0.97] bg-rose-600 text-white active:bg-rose-700 shadow-rose-200">OK</button>
+              <button onClick={() => { if(isSaveChecked) { markAsConfigured(sourceCurr); markAsConfigured(targetCurr); } setWarningAcknowledged(true); setShowWarningPopup(false); }} className="w-full py-4 rounded-2xl text-[16px] font-bold shadow-lg transition-all active:scale-[0.97] bg-rose-600 text-white active:bg-rose-700 shadow-rose-200">{t('common.ok')}</button>
            </div>
         </div>
       )}
 
+      {activeAlerts.length > 0 && (
+        <div className="px-4 pb-2 space-y-2">
+          {activeAlerts.map(a => (
+            <div key={a.id} className="p-3 bg-rose-50 border border-rose-100 rounded-2xl flex items-center gap-3 animate-in slide-in-from-top-2 duration-300">
+              <Bell size={18} className="text-rose-500 shrink-0" />
+              <span className="flex-1 text-[13px] text-gray-800">{alertMessage(a, currentValue(a, alertContext), t)}</span>
+              <button onClick={() => updateAlert(a.id, snoozeAlert)} className="text-[12px] text-gray-500 font-medium">{t('alerts.snooze')}</button>
+              <button onClick={() => updateAlert(a.id, x => acknowledgeAlert(x, alertContext))} className="text-[12px] text-rose-600 font-bold">{t('common.ok')}</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {sharedProfile && (
+        <div className="mx-4 mb-2 p-3 bg-white rounded-2xl shadow-sm flex items-center gap-3 animate-in slide-in-from-top-2 duration-300">
+          <SlidersHorizontal size={18} className="text-[#2866E0] shrink-0" />
+          <span className="flex-1 text-[13px] text-gray-700">{t('profiles.importPrompt')} <b>{profileName(sharedProfile, t)}</b> {t('profiles.importCount', { count: Object.keys(sharedProfile.spreads).length })}</span>
+          <button onClick={() => closeSharedProfile(false)} className="text-[13px] text-gray-500 font-medium">{t('common.dismiss')}</button>
+          <button onClick={() => closeSharedProfile(true)} className="text-[13px] text-[#2866E0] font-bold">{t('common.import')}</button>
+        </div>
+      )}
+
+      {openedQuote && (
+        <div className="mx-4 mb-2 p-3 bg-white rounded-2xl shadow-sm flex items-center gap-3 animate-in slide-in-from-top-2 duration-300">
+          <Clock size={18} className={`shrink-0 ${openedQuote.validUntil && openedQuote.validUntil < Date.now() ? 'text-rose-500' : 'text-[#2866E0]'}`} />
+          <span className="flex-1 text-[13px] text-gray-700">
+            {!openedQuote.validUntil ? t('quote.opened')
+              : t(openedQuote.validUntil < Date.now() ? 'quote.openedExpired' : 'quote.openedValid', { time: new Date(openedQuote.validUntil).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' }) })}
+          </span>
+          <button onClick={() => setOpenedQuote(null)} className="text-[13px] text-gray-500 font-medium">{t('common.dismiss')}</button>
+        </div>
+      )}
+
+      {isProMode && (
+        <div className="flex-none flex items-center gap-2 px-4 pb-3 animate-in slide-in-from-top-2 duration-300">
+          <div className="flex-1 min-w-0 flex gap-1.5 overflow-x-auto">
+            {workspace.tabs.map(tab => {
+              const active = tab.id === workspace.activeId;
+              return (
+                <div key={tab.id} className={`shrink-0 flex items-center gap-1 rounded-full pl-3 py-1 text-[12px] font-semibold shadow-sm ${workspace.tabs.length > 1 ? 'pr-1.5' : 'pr-3'} ${active ? 'bg-[#2866E0] text-white' : 'bg-white text-gray-700'}`}>
+                  <button onClick={() => switchTab(tab.id)}>{tab.sourceCurr} → {tab.targetCurr}</button>
+                  {workspace.tabs.length > 1 && <button onClick={() => closeWorkspaceTab(tab.id)} title={t('tabs.close')} className={active ? 'text-white/70' : 'text-[#999999]'}><X size={12} /></button>}
+                </div>
+              );
+            })}
+          </div>
+          <button onClick={duplicateTab} title={t('tabs.new')} className="w-7 h-7 rounded-full bg-white shadow-sm flex items-center justify-center text-[#2866E0] shrink-0 active:scale-90 transition-transform"><Plus size={16} /></button>
+          <button onClick={() => setWorkspace(prev => togglePin(prev, currentPair))} title={t(workspace.pinned.includes(currentPair) ? 'tabs.unpin' : 'tabs.pin')} className={`w-7 h-7 rounded-full shadow-sm flex items-center justify-center shrink-0 active:scale-90 transition-transform ${workspace.pinned.includes(currentPair) ? 'bg-[#2866E0] text-white' : 'bg-white text-[#2866E0]'}`}><Pin size={14} /></button>
+        </div>
+      )}
+
+      {isProMode && (
+        <div className="flex-none flex items-center justify-center gap-2 px-4 animate-in slide-in-from-top-2 duration-300">
+          <div className="relative flex items-center gap-1.5 bg-white rounded-full pl-3 pr-2.5 py-1 shadow-sm text-[13px] font-medium text-gray-700">
+            <SlidersHorizontal size={14} className="text-[#2866E0]" />
+            <span className="max-w-[160px] truncate">{profileName(activeProfile, t)}</span>
+            <ChevronDown size={14} className="text-[#999999]" />
+            <select value={profilesState.activeId} onChange={(e) => setProfilesState(prev => ({ ...prev, activeId: e.target.value }))} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer">{profilesState.profiles.map(pr => <option key={pr.id} value={pr.id}>{profileName(pr, t)}</option>)}</select>
+          </div>
+          <button onClick={() => setShowProfiles(true)} className="text-[12px] font-medium text-[#2866E0] px-2 py-1 active:opacity-60">{t('common.edit')}</button>
+        </div>
+      )}
+
       {isProMode && (
         <div className="flex-none flex items-center justify-center gap-6 pt-4 pb-4 px-4 animate-in slide-in-from-top-2 duration-300">
           <div className="relative group cursor-pointer flex items-center gap-2 bg-[#E5E7EB] rounded-full pl-2 pr-4 py-1.5 shadow-sm">
@@ -332,76 +671,225 @@ const App = () => {
         </div>
       )}
 
+      {isProMode && (
+        <div className="px-4 pb-3 -mt-1 flex items-center justify-center gap-2 text-[11px] animate-in slide-in-from-top-2 duration-300">
+          {rateSnapshot ? (
+            <span className={`flex items-center gap-1 ${ratesStale ? 'text-amber-600 font-medium' : 'text-gray-500'}`}>
+              {ratesStale && <AlertTriangle size={12} />}
+              {t('rates.asOf', { time: formatRatesTime(rateSnapshot.asOf), source: rateSnapshot.source })}{ratesStale && t('rates.stale')}
+            </span>
+          ) : (
+            <span className="flex items-center gap-1 text-rose-600 font-medium"><AlertTriangle size={12} />{t(ratesStatus === 'loading' ? 'rates.loading' : 'rates.unavailable')}</span>
+          )}
+          <button onClick={() => refreshRates()} title={ratesError ? errorMessage(ratesError, t) : t('rates.refresh')} className={`text-[#2866E0] active:opacity-60 ${ratesStatus === 'loading' ? 'animate-spin' : ''}`}><RefreshCw size={12} /></button>
+        </div>
+      )}
+
       {isProMode && (
         <div className="px-4 pb-4 animate-in slide-in-from-top-2 duration-300">
           <div className="bg-[#E5E7EB] p-1 rounded-xl flex text-[14px] font-medium relative">
-            <button onClick={() => setCalcMode('approx')} className={`flex-1 py-1.5 rounded-lg transition-all duration-200 ${calcMode === 'approx' ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>Approximate</button>
-            <button onClick={() => setCalcMode('exact')} className={`flex-1 py-1.5 rounded-lg transition-all duration-200 ${calcMode === 'exact' ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>Exact</button>
+            <button onClick={() => setCalcMode('approx')} className={`flex-1 py-1.5 rounded-lg transition-all duration-200 ${calcMode === 'approx' ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>{t('mode.approx')}</button>
+            <button onClick={() => setCalcMode('exact')} className={`flex-1 py-1.5 rounded-lg transition-all duration-200 ${calcMode === 'exact' ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>{t('mode.exact')}</button>
+          </div>
+          <div className="bg-[#E5E7EB] p-1 rounded-xl flex text-[14px] font-medium relative mt-2">
+            <button onClick={() => setViewMode('convert')} className={`flex-1 py-1.5 rounded-lg transition-all duration-200 ${viewMode === 'convert' ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>{t('view.convert')}</button>
+            <button onClick={() => setViewMode('arbitrage')} className={`flex-1 py-1.5 rounded-lg transition-all duration-200 ${viewMode === 'arbitrage' ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>{t('view.arbitrage')}</button>
+          </div>
+          <div className="flex flex-wrap justify-center gap-2 mt-3">
+            <button onClick={() => setShowRoutes(true)} className="px-3 py-1.5 rounded-full bg-white shadow-sm text-[12px] font-medium text-[#2866E0] flex items-center gap-1 active:scale-95 transition-transform"><RouteIcon size={14} />{t('tools.routes')}</button>
+            <button onClick={() => setShowBasket(true)} className="px-3 py-1.5 rounded-full bg-white shadow-sm text-[12px] font-medium text-[#2866E0] flex items-center gap-1 active:scale-95 transition-transform"><Table2 size={14} />{t('tools.basket')}</button>
+            <button onClick={() => setShowSolver(true)} className="px-3 py-1.5 rounded-full bg-white shadow-sm text-[12px] font-medium text-[#2866E0] flex items-center gap-1 active:scale-95 transition-transform"><Target size={14} />{t('tools.solver')}</button>
+            <button onClick={() => setShowCharts(true)} className="px-3 py-1.5 rounded-full bg-white shadow-sm text-[12px] font-medium text-[#2866E0] flex items-center gap-1 active:scale-95 transition-transform"><ChartIcon size={14} />{t('tools.charts')}</button>
+            <button onClick={() => setShowAlerts(true)} className="px-3 py-1.5 rounded-full bg-white shadow-sm text-[12px] font-medium text-[#2866E0] flex items-center gap-1 active:scale-95 transition-transform"><Bell size={14} />{t('tools.alerts')}{alerts.filter(a => a.enabled).length > 0 && <span className="ml-0.5 text-[10px] bg-[#2866E0] text-white rounded-full px-1.5">{alerts.filter(a => a.enabled).length}</span>}</button>
           </div>
         </div>
       )}
 
       <div className="flex-1 px-4 pb-8 space-y-4">
+        {isProMode && workspace.pinned.length > 0 && (
+          <PinnedPairs
+            pinned={workspace.pinned} activePair={currentPair} apiRates={apiRates} spreads={spreads} spreadWarningPct={spreadWarningPct}
+            onOpen={openPair} onUnpin={(pair) => setWorkspace(prev => togglePin(prev, pair))}
+          />
+        )}
+
         <div className="bg-white rounded-[24px] shadow-sm p-4 pt-5 relative transition-all duration-300">
           <div className="grid grid-cols-2 gap-3">
              <div className={`bg-[#F2F3F5] rounded-xl px-3 py-3 flex flex-col justify-center relative ${(isProMode && calcMode === 'approx') ? 'opacity-90' : 'ring-2 ring-[#2866E0] bg-white'}`}>
-                <span className="text-[11px] text-[#999999] mb-0.5 flex items-center gap-1">Buy USDT {(isProMode && calcMode === 'approx') && <span className="text-[9px] bg-gray-200 px-1 rounded text-gray-500">Auto</span>}</span>
+                <span className="text-[11px] text-[#999999] mb-0.5 flex items-center gap-1">{t('rate.buyUsdt')} {(isProMode && calcMode === 'approx') && <span className="text-[9px] bg-gray-200 px-1 rounded text-gray-500">{t('rate.auto')}</span>}</span>
                 <input type="text" inputMode="decimal" value={buyRate} readOnly={isProMode && calcMode === 'approx'} onChange={(e) => updateRates(e.target.value, sellRate)} className="bg-transparent text-[22px] font-semibold text-black outline-none w-full" placeholder="0.00" />
                 {isProMode && buyInfo && (
                   <div className="mt-2 pt-2 border-t border-gray-200 text-[10px] space-y-0.5">
-                     <div className="flex justify-between text-gray-500"><span>CB Rate:</span><span>{buyInfo.cb}</span></div>
-                     <div className="flex justify-between font-medium"><span className="text-gray-500">Spread:</span><span className={Math.abs(buyInfo.diffVal) > 5 ? 'text-rose-600 font-bold' : buyInfo.diffVal >= 0 ? 'text-emerald-600' : 'text-rose-500'}>{buyInfo.diff}</span></div>
+                     <div className="flex justify-between text-gray-500"><span>{t('rate.cb')}</span><span>{buyInfo.cb}</span></div>
+                     <div className="flex justify-between font-medium"><span className="text-gray-500">{t('rate.spread')}</span><span className={Math.abs(buyInfo.diffVal) > spreadWarningPct ? 'text-rose-600 font-bold' : buyInfo.diffVal >= 0 ? 'text-emerald-600' : 'text-rose-500'}>{buyInfo.diff}</span></div>
+                     {estimates.available && (
+                       <EstimateRow
+                         currency={sourceCurr} value={estimates.get(sourceCurr)?.buy ?? null} rationale={estimates.get(sourceCurr)?.rationale}
+                         loading={estimates.pending.includes(sourceCurr)} error={estimates.errors[sourceCurr] && errorMessage(estimates.errors[sourceCurr], t)}
+                         onRequest={(force) => requestEstimate(sourceCurr, force)} onApply={(v) => updateRates(fmt(v, rateDecimals(sourceCurr)), sellRate)}
+                       />
+                     )}
                   </div>
                 )}
              </div>
              <div className={`bg-[#F2F3F5] rounded-xl px-3 py-3 flex flex-col justify-center relative ${(isProMode && calcMode === 'approx') ? 'opacity-90' : 'ring-2 ring-[#2866E0] bg-white'}`}>
-                 <span className="text-[11px] text-[#999999] mb-0.5 flex items-center gap-1">Sell USDT {(isProMode && calcMode === 'approx') && <span className="text-[9px] bg-gray-200 px-1 rounded text-gray-500">Auto</span>}</span>
+                 <span className="text-[11px] text-[#999999] mb-0.5 flex items-center gap-1">{t('rate.sellUsdt')} {(isProMode && calcMode === 'approx') && <span className="text-[9px] bg-gray-200 px-1 rounded text-gray-500">{t('rate.auto')}</span>}</span>
                  <input type="text" inputMode="decimal" value={sellRate} readOnly={isProMode && calcMode === 'approx'} onChange={(e) => updateRates(buyRate, e.target.value)} className="bg-transparent text-[22px] font-semibold text-black outline-none w-full" placeholder="0.00" />
                 {isProMode && sellInfo && (
                   <div className="mt-2 pt-2 border-t border-gray-200 text-[10px] space-y-0.5">
-                     <div className="flex justify-between text-gray-500"><span>CB Rate:</span><span>{sellInfo.cb}</span></div>
-                     <div className="flex justify-between font-medium"><span className="text-gray-500">Spread:</span><span className={Math.abs(sellInfo.diffVal) > 5 ? 'text-rose-600 font-bold' : sellInfo.diffVal >= 0 ? 'text-emerald-600' : 'text-rose-500'}>{sellInfo.diff}</span></div>
+                     <div className="flex justify-between text-gray-500"><span>{t('rate.cb')}</span><span>{sellInfo.cb}</span></div>
+                     <div className="flex justify-between font-medium"><span className="text-gray-500">{t('rate.spread')}</span><span className={Math.abs(sellInfo.diffVal) > spreadWarningPct ? 'text-rose-600 font-bold' : sellInfo.diffVal >= 0 ? 'text-emerald-600' : 'text-rose-500'}>{sellInfo.diff}</span></div>
+                     {estimates.available && (
+                       <EstimateRow
+                         currency={targetCurr} value={estimates.get(targetCurr)?.sell ?? null} rationale={estimates.get(targetCurr)?.rationale}
+                         loading={estimates.pending.includes(targetCurr)} error={estimates.errors[targetCurr] && errorMessage(estimates.errors[targetCurr], t)}
+                         onRequest={(force) => requestEstimate(targetCurr, force)} onApply={(v) => updateRates(buyRate, fmt(v, rateDecimals(targetCurr)))}
+                       />
+                     )}
                   </div>
                 )}
              </div>
           </div>
+          {!(isProMode && viewMode === 'arbitrage') && conversion && conversion.breakdown.giveGross.isPositive() && (
+            <FeeBreakdown breakdown={conversion.breakdown} sourceCurr={sourceCurr} targetCurr={targetCurr} />
+          )}
         </div>
 
+        {isProMode && viewMode === 'arbitrage' ? (
+          <ArbitragePanel sourceCurr={sourceCurr} targetCurr={targetCurr} buyRate={buyRate} sellRate={sellRate} apiRates={apiRates} fees={legFees} spreadWarningPct={spreadWarningPct} getRateInfo={getRateInfo} />
+        ) : (<>
+        <TierStatus buy={tierMatch.buy} sell={tierMatch.sell} sourceCurr={sourceCurr} targetCurr={targetCurr} apiRates={apiRates} />
+
         <div className="bg-white rounded-[24px] shadow-sm p-4 pt-5 relative">
           <div className="space-y-3">
             <div className="bg-[#F2F3F5] rounded-xl px-4 py-3 flex justify-between items-center gap-3 focus-within:ring-2 focus-within:ring-[#2866E0] transition-all">
-               <div className="flex flex-col flex-1 min-w-0"><span className="text-[11px] text-[#999999] font-medium">Give</span><input type="text" inputMode="decimal" value={amountBuy} onChange={(e) => handleBuyChange(e.target.value)} className="bg-transparent text-[26px] font-semibold text-black outline-none w-full" /></div>
+               <div className="flex flex-col flex-1 min-w-0"><span className="text-[11px] text-[#999999] font-medium">{t('amount.give')}</span><input type="text" inputMode="decimal" value={amountBuy} onChange={(e) => handleBuyChange(e.target.value)} className="bg-transparent text-[26px] font-semibold text-black outline-none w-full" /></div>
                {isProMode && (<div className="flex items-center gap-2 shrink-0"><div className="w-6 h-6 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden"><span>{getFlag(sourceCurr)}</span></div><span className="text-[17px] font-medium text-[#999999]">{sourceCurr}</span></div>)}
             </div>
              <div className="bg-[#F2F3F5] rounded-xl px-4 py-3 flex justify-between items-center gap-3 focus-within:ring-2 focus-within:ring-[#2866E0] transition-all">
-               <div className="flex flex-col flex-1 min-w-0"><span className="text-[11px] text-[#999999] font-medium">Receive</span><input type="text" inputMode="decimal" value={amountSale} onChange={(e) => handleSaleChange(e.target.value)} className="bg-transparent text-[26px] font-semibold text-black outline-none w-full" /></div>
+               <div className="flex flex-col flex-1 min-w-0"><span className="text-[11px] text-[#999999] font-medium">{t('amount.receive')}</span><input type="text" inputMode="decimal" value={amountSale} onChange={(e) => handleSaleChange(e.target.value)} className="bg-transparent text-[26px] font-semibold text-black outline-none w-full" /></div>
                {isProMode && (<div className="flex items-center gap-2 shrink-0"><div className="w-6 h-6 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden"><span>{getFlag(targetCurr)}</span></div><span className="text-[17px] font-medium text-[#999999]">{targetCurr}</span></div>)}
             </div>
             <div className="bg-[#F2F3F5] rounded-xl px-4 py-3 flex justify-between items-center gap-3 focus-within:ring-2 focus-within:ring-[#2866E0] transition-all">
-               <div className="flex flex-col flex-1 min-w-0"><span className="text-[11px] text-[#999999] font-medium">Equivalent</span><input type="text" inputMode="decimal" value={amountUsdt} onChange={(e) => handleUsdtChange(e.target.value)} className="bg-transparent text-[26px] font-semibold text-black outline-none w-full" /></div>
+               <div className="flex flex-col flex-1 min-w-0"><span className="text-[11px] text-[#999999] font-medium">{t('amount.equivalent')}</span><input type="text" inputMode="decimal" value={amountUsdt} onChange={(e) => handleUsdtChange(e.target.value)} className="bg-transparent text-[26px] font-semibold text-black outline-none w-full" /></div>
                <div className="flex items-center gap-2 shrink-0"><div className="w-6 h-6 rounded-full bg-teal-500/10 flex items-center justify-center text-teal-600 font-bold">₮</div><span className="text-[17px] font-medium text-[#999999]">USDT</span></div>
             </div>
           </div>
         </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={openDealNote} disabled={!p(amountBuy) || !p(amountSale)} className="bg-white rounded-2xl shadow-sm py-3 text-[14px] font-semibold text-[#2866E0] flex items-center justify-center gap-1.5 active:scale-[0.98] transition-transform disabled:opacity-40">{dealSaved ? <Check size={18} /> : <Save size={18} />}{t(dealSaved ? 'deal.saved' : 'deal.save')}</button>
+          <button onClick={() => setShowJournal(true)} className="bg-white rounded-2xl shadow-sm py-3 text-[14px] font-semibold text-[#2866E0] flex items-center justify-center gap-1.5 active:scale-[0.98] transition-transform"><BookOpen size={18} />{t('deal.journal')}</button>
+          <button onClick={() => setShowQuote(true)} disabled={!p(amountBuy) || !p(amountSale)} className="col-span-2 bg-white rounded-2xl shadow-sm py-3 text-[14px] font-semibold text-[#2866E0] flex items-center justify-center gap-1.5 active:scale-[0.98] transition-transform disabled:opacity-40"><Share2 size={18} />{t('quote.share')}</button>
+        </div>
+        </>)}
       </div>
 
+      {dealNote !== null && (
+        <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center p-0 sm:p-4">
+           <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={() => setDealNote(null)}></div>
+           <div className="bg-white w-full max-w-sm rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+              <div className="flex justify-between items-center mb-4"><h3 className="text-xl font-bold">{t('deal.save')}</h3><button onClick={() => setDealNote(null)} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+              <div className="text-[13px] text-gray-600 mb-3">{amountBuy} {sourceCurr} → {amountSale} {targetCurr} · {amountUsdt} USDT</div>
+              <textarea value={dealNote} onChange={(e) => setDealNote(e.target.value)} placeholder={t('deal.notePlaceholder')} rows={3} className="bg-[#F2F3F5] rounded-xl px-4 py-3 text-[14px] outline-none resize-none mb-4 focus:ring-2 focus:ring-[#2866E0]" autoFocus />
+              {dealError && <p className="text-[11px] text-rose-600 mb-2">{t('deal.saveError', { error: dealError })}</p>}
+              <button onClick={saveDeal} className="w-full bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg">{t('common.save')}</button>
+           </div>
+        </div>
+      )}
+
+      {showProfiles && <ProfileEditor state={profilesState} currencies={configuredCurrencies} onChange={setProfilesState} onClose={() => setShowProfiles(false)} />}
+
+      {showAlerts && (
+        <AlertsPanel
+          alerts={alerts} settings={alertSettings} context={alertContext} currencies={configuredCurrencies} defaultPair={`${sourceCurr}/${targetCurr}`}
+          onChange={setAlerts} onSettingsChange={setAlertSettings} onClose={() => setShowAlerts(false)}
+        />
+      )}
+
+      {showCharts && <RateCharts currencies={[...new Set([...configuredCurrencies, sourceCurr, targetCurr])]} initialCurrency={sourceCurr} writeError={historyError} onClose={() => setShowCharts(false)} />}
+
+      {showJournal && <Journal onClose={() => setShowJournal(false)} />}
+
+      {showRoutes && (
+        <RouteFinder
+          sourceCurr={sourceCurr} targetCurr={targetCurr} initialAmount={amountBuy} settings={routeSettings}
+          currencies={[...new Set([...configuredCurrencies, ...routeSettings.viaFiats])]} apiRates={apiRates} price={routePrice} fees={legFees}
+          onSettingsChange={setRouteSettings} onSelect={loadRoute} onClose={() => setShowRoutes(false)}
+        />
+      )}
+
+      {showQuote && <QuoteShare state={quoteState()} fees={legFees} onClose={() => setShowQuote(false)} />}
+
+      {showBasket && (
+        <BasketView
+          sourceCurr={sourceCurr} initialAmount={amountBuy} buyRate={buyRate} currencies={configuredCurrencies} apiRates={apiRates}
+          spreads={spreads} feeRules={feeRules} spreadWarningPct={spreadWarningPct} onSelect={openBasketRow} onClose={() => setShowBasket(false)}
+        />
+      )}
+
+      {showSolver && (
+        <TargetSolver
+          sourceCurr={sourceCurr} targetCurr={targetCurr} buyRate={buyRate} sellRate={sellRate} amountBuy={amountBuy} amountSale={amountSale}
+          apiRates={apiRates} fees={legFees} spreadWarningPct={spreadWarningPct} onApply={applySolved} onClose={() => setShowSolver(false)}
+        />
+      )}
+
+      {showTiers && <TiersEditor tiers={volumeTiers} currencies={configuredCurrencies} apiRates={apiRates} defaultCurrency={sourceCurr} onChange={setVolumeTiers} onClose={() => setShowTiers(false)} />}
+
+      {showFees && <FeesEditor rules={feeRules} currencies={configuredCurrencies} onChange={setFeeRules} onClose={() => setShowFees(false)} />}
+
       {showSettings && (
         <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
-           <div className="absolute inset-0 bg-black/40 backdrop-blur-sm transition-opacity" onClick={() => setShowSettings(false)}></div>
-           <div className="bg-white w-full max-w-sm rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
-              <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold">Settings</h3><button onClick={() => setShowSettings(false)} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
-              <div className="space-y-4 mb-4">
+           <div className="absolute inset-0 bg-black/40 backdrop-blur-sm transition-opacity" onClick={() => { setShowSettings(false); setConfirmReset(false); }}></div>
+           <div className="bg-white w-full max-w-sm max-h-[92vh] rounded-t-[24px] sm:rounded-[24px] p-6 relative z-10 animate-in slide-in-from-bottom-10 shadow-xl flex flex-col">
+              <div className="flex justify-between items-center mb-6"><h3 className="text-xl font-bold">{t('settings.title')}</h3><button onClick={() => setShowSettings(false)} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={20} /></button></div>
+              <div className="space-y-4 mb-4 overflow-y-auto">
+                  <div className="p-4 bg-[#F9FAFB] rounded-2xl border border-gray-100 flex flex-col gap-3">
+                      <div className="flex flex-col"><span className="font-bold text-gray-800">{t('settings.language')}</span><span className="text-xs text-gray-500">{t('settings.languageHint')}</span></div>
+                      <div className="bg-[#E5E7EB] p-1 rounded-xl flex text-[14px] font-medium">
+                        {LANGUAGES.map(l => <button key={l.code} onClick={() => setLang(l.code)} className={`flex-1 py-1.5 rounded-lg transition-all duration-200 ${lang === l.code ? 'bg-white shadow-sm text-black' : 'text-[#999999]'}`}>{l.label}</button>)}
+                      </div>
+                  </div>
                   <div className="p-4 bg-[#F9FAFB] rounded-2xl border border-gray-100 flex flex-col gap-3">
                       <div className="flex items-center justify-between">
-                        <div className="flex flex-col"><span className="font-bold text-gray-800">Pro Mode</span><span className="text-xs text-gray-500">Show advanced controls and metrics</span></div>
+                        <div className="flex flex-col"><span className="font-bold text-gray-800">{t('settings.proMode')}</span><span className="text-xs text-gray-500">{t('settings.proModeHint')}</span></div>
                         <button onClick={() => setIsProMode(!isProMode)} className={`w-14 h-8 rounded-full transition-colors relative ${isProMode ? 'bg-[#2866E0]' : 'bg-gray-300'}`}><div className={`absolute top-1 left-1 w-6 h-6 bg-white rounded-full transition-transform ${isProMode ? 'translate-x-6' : 'translate-x-0'}`}></div></button>
                       </div>
                       <p className="text-[11px] text-gray-500 italic leading-relaxed mt-2 pt-2 border-t border-gray-100">
-                        In Pro mode, P2P Exchanger can calculate an approximate exchange rate. The calculator takes into account the difference between the entered price and the Central Bank exchange rate. When the Central Bank exchange rate changes, the buy and sell prices are updated automatically.
+                        {t('settings.proModeAbout')}
                       </p>
                   </div>
+                  <div className="p-4 bg-[#F9FAFB] rounded-2xl border border-gray-100 flex flex-col gap-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex flex-col"><span className="font-bold text-gray-800">{t('settings.manualRates')}</span><span className="text-xs text-gray-500">{manualRatesCount > 0 ? t('settings.manualRatesLoaded', { count: manualRatesCount }) : t('settings.manualRatesHint')}</span></div>
+                        <div className="flex items-center gap-2">
+                          {manualRatesCount > 0 && <button onClick={clearManualRates} className="w-8 h-8 rounded-full bg-[#F2F3F5] flex items-center justify-center text-[#999999]"><X size={16} /></button>}
+                          <label className="px-3 py-1.5 rounded-lg bg-[#2866E0] text-white text-xs font-semibold flex items-center gap-1 cursor-pointer active:opacity-80"><Upload size={14} />JSON<input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { handleManualRatesFile(e.target.files?.[0]); e.target.value = ''; }} /></label>
+                        </div>
+                      </div>
+                      {manualRatesError && <span className="text-[11px] text-rose-600">{manualRatesError}</span>}
+                      {ratesError && <span className="text-[11px] text-amber-600">{t('settings.lastRefreshFailed', { error: errorMessage(ratesError, t) })}</span>}
+                  </div>
+                  <button onClick={() => setShowFees(true)} className="w-full p-4 bg-[#F9FAFB] rounded-2xl border border-gray-100 flex items-center justify-between text-left">
+                      <div className="flex flex-col"><span className="font-bold text-gray-800">{t('settings.fees')}</span><span className="text-xs text-gray-500">{t('settings.feesHint', { count: feeRules.filter(r => r.enabled).length })}</span></div>
+                      <ChevronRight size={20} className="text-[#999999]" />
+                  </button>
+                  <button onClick={() => setShowTiers(true)} className="w-full p-4 bg-[#F9FAFB] rounded-2xl border border-gray-100 flex items-center justify-between text-left">
+                      <div className="flex flex-col"><span className="font-bold text-gray-800">{t('settings.tiers')}</span><span className="text-xs text-gray-500">{t('settings.tiersHint', { count: volumeTiers.filter(x => x.enabled).length })}</span></div>
+                      <ChevronRight size={20} className="text-[#999999]" />
+                  </button>
+                  <div className="p-4 bg-[#F9FAFB] rounded-2xl border border-gray-100 flex flex-col gap-3">
+                      <div className="flex flex-col"><span className="font-bold text-gray-800">{t('settings.backup')}</span><span className="text-xs text-gray-500">{t('settings.backupHint')}</span></div>
+                      <div className="flex gap-2">
+                        <button onClick={backupSettings} className="flex-1 px-3 py-2 rounded-lg bg-[#2866E0] text-white text-xs font-semibold flex items-center justify-center gap-1 active:opacity-80"><Download size={14} />{t('settings.backupSave')}</button>
+                        <label className="flex-1 px-3 py-2 rounded-lg bg-white border border-gray-200 text-[#2866E0] text-xs font-semibold flex items-center justify-center gap-1 cursor-pointer active:opacity-80"><Upload size={14} />{t('settings.backupRestore')}<input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { handleSettingsFile(e.target.files?.[0]); e.target.value = ''; }} /></label>
+                      </div>
+                      <button onClick={resetAllSettings} className={`px-3 py-2 rounded-lg text-xs font-semibold flex items-center justify-center gap-1 active:opacity-80 ${confirmReset ? 'bg-rose-600 text-white' : 'bg-white border border-gray-200 text-rose-600'}`}><RotateCcw size={14} />{t(confirmReset ? 'settings.resetConfirm' : 'settings.reset')}</button>
+                      {settingsError && <span className="text-[11px] text-rose-600">{settingsError}</span>}
+                  </div>
               </div>
-              <button onClick={() => setShowSettings(false)} className="w-full mt-2 bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg mb-2">Done</button>
+              <button onClick={() => { setShowSettings(false); setConfirmReset(false); }} className="w-full mt-2 bg-[#2866E0] text-white font-semibold py-3.5 rounded-xl shadow-lg mb-2">{t('common.done')}</button>
            </div>
         </div>
       )}
@@ -409,5 +897,7 @@ const App = () => {
   );
 };
 
+registerServiceWorker();
+
 const root = createRoot(document.getElementById('root')!);
-root.render(<App />);
\ No newline at end of file
+root.render(<I18nProvider><App /></I18nProvider>);
\ No newline at end of file
@@ -0,0 +1,69 @@
+// Offline support: the app shell and its hashed bundles are served from cache, page loads go to the
+// network first. Rate APIs are left alone; the app keeps its own last-known snapshot for offline use.
+
+const CACHE_PREFIX = 'p2p-exchanger-';
+const CACHE = `${CACHE_PREFIX}v1`;
+const SHELL = ['./', './index.html', './manifest.webmanifest', './icon.svg', './icon-192.png', './icon-512.png'];
+// Cross-origin scripts the page needs to render (Tailwind is loaded from its CDN)
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com'];
+
+const scoped = (path) => new URL(path, self.registration.scope).href;
+
+// Bundles referenced by index.html are cached with the shell, so the very first visit already works offline
+const precache = async () => {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL.map(scoped));
+  const html = await (await cache.match(scoped('./index.html'))).text();
+  const assets = [...html.matchAll(/(?:src|href)="([^"]*assets\/[^"]+)"/g)].map(m => new URL(m[1], scoped('./')).href);
+  await cache.addAll(assets);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k.startsWith(CACHE_PREFIX) && k !== CACHE).map(k => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+const networkFirst = async (request, fallback) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallback, response.clone());
+    return response;
+  } catch (e) {
+    const cached = await cache.match(fallback);
+    if (cached) return cached;
+    throw e;
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const update = fetch(request).then(response => {
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    update.catch(() => undefined);
+    return cached;
+  }
+  return update;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, scoped('./index.html')));
+  } else if (url.origin === self.location.origin || RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
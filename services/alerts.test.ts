@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { AlertContext, createAlert, evaluateAlert, processAlerts, sanitizeAlerts, snoozeAlert } from './alerts';
+
+const ctx = (apiRates: Record<string, number>, spreads: AlertContext['spreads'] = {}): AlertContext => ({ apiRates, spreads, enteredRates: {} });
+
+describe('sanitizeAlerts', () => {
+  it('keeps a valid alert and fills missing fields', () => {
+    const [alert] = sanitizeAlerts([{ id: 'a', kind: 'spread', target: 'RUB', side: 'sell', threshold: '3', direction: 'above' }]);
+    expect(alert).toMatchObject({ id: 'a', side: 'sell', threshold: '3', enabled: true, triggeredAt: null, snoozedUntil: 0 });
+  });
+
+  it('drops alerts with a bad field instead of letting evaluation throw', () => {
+    const base = { id: 'a', kind: 'spread', target: 'RUB', side: 'buy', threshold: '5', direction: 'above' };
+    const stored = [
+      { ...base, threshold: 5 },
+      { ...base, kind: 'volume' },
+      { ...base, side: 'both' },
+      { ...base, direction: 'up' },
+      { ...base, baselineCb: '92' },
+      { ...base, triggeredAt: NaN },
+      { ...base, snoozedUntil: null },
+      { ...base, target: undefined },
+      null,
+      'alert',
+    ];
+    const alerts = sanitizeAlerts(stored);
+    expect(alerts).toEqual([]);
+    expect(() => processAlerts(alerts, ctx({ RUB: 92 }))).not.toThrow();
+  });
+
+  it('falls back to defaults for bad flags', () => {
+    const [alert] = sanitizeAlerts([{ id: 'a', kind: 'cbMove', target: 'THB', side: 'buy', threshold: '1', direction: 'below', enabled: 'yes', baselineCb: 36 }]);
+    expect(alert.enabled).toBe(true);
+    expect(alert.baselineCb).toBe(36);
+  });
+
+  it('reads a non-array as no alerts', () => {
+    expect(sanitizeAlerts({ id: 'a' })).toEqual([]);
+  });
+});
+
+describe('evaluateAlert', () => {
+  it('compares the approx rate against the target', () => {
+    const alert = createAlert({ kind: 'rateCross', target: 'RUB', side: 'buy', threshold: '95', direction: 'above' });
+    expect(evaluateAlert(alert, ctx({ RUB: 92 }, { RUB: { buy: '5', sell: '0' } })).active).toBe(true);
+    expect(evaluateAlert(alert, ctx({ RUB: 92 })).active).toBe(false);
+  });
+
+  it('measures a CB move from the baseline', () => {
+    const alert = createAlert({ kind: 'cbMove', target: 'RUB', threshold: '2', baselineCb: 100 });
+    expect(evaluateAlert(alert, ctx({ RUB: 101 })).active).toBe(false);
+    expect(evaluateAlert(alert, ctx({ RUB: 97 })).active).toBe(true);
+  });
+});
+
+describe('processAlerts', () => {
+  const alert = createAlert({ kind: 'spread', target: 'RUB', side: 'buy', threshold: '5' });
+  const wide = ctx({ RUB: 92 }, { RUB: { buy: '6', sell: '0' } });
+
+  it('fires once and re-arms when the condition clears', () => {
+    const first = processAlerts([alert], wide, 1000);
+    expect(first.fired).toHaveLength(1);
+    expect(processAlerts(first.alerts, wide, 2000).fired).toHaveLength(0);
+    const cleared = processAlerts(first.alerts, ctx({ RUB: 92 }, { RUB: { buy: '1', sell: '0' } }), 3000);
+    expect(cleared.alerts[0].triggeredAt).toBeNull();
+  });
+
+  it('stays quiet while snoozed', () => {
+    const snoozed = snoozeAlert(alert, 1000);
+    expect(processAlerts([snoozed], wide, 2000).fired).toHaveLength(0);
+    expect(processAlerts([snoozed], wide, snoozed.snoozedUntil).fired).toHaveLength(1);
+  });
+});
@@ -0,0 +1,215 @@
+import { SpreadMap, calculateSpread, rateFromSpread, formatFixed, formatPercent } from './calcEngine';
+import { Translate } from './i18n';
+import { createId } from './ids';
+
+// User-defined alerts evaluated against every rate refresh and rate edit.
+//  cbMove:    CB rate moved more than X% since the alert was last acknowledged
+//  rateCross: approx rate (CB + saved spread) went above / below a target value
+//  spread:    spread of the entered (or saved) rate over CB exceeds X%
+// `target` is a currency ("THB") or a pair ("RUB/THB", Give per Receive).
+
+export type AlertKind = 'cbMove' | 'rateCross' | 'spread';
+
+export interface RateAlert {
+  id: string;
+  kind: AlertKind;
+  target: string;
+  side: 'buy' | 'sell';
+  threshold: string;
+  direction: 'above' | 'below';
+  baselineCb: number | null;
+  enabled: boolean;
+  triggeredAt: number | null;
+  acknowledged: boolean;
+  snoozedUntil: number;
+}
+
+export interface AlertSettings {
+  spreadWarningPct: string;  // the extreme-spread popup threshold
+  warningDelaySec: string;
+  notifications: boolean;
+}
+
+export interface AlertContext {
+  apiRates: Record<string, number>;
+  spreads: SpreadMap;
+  enteredRates: Record<string, { buy?: number; sell?: number }>;
+}
+
+export interface AlertEvaluation {
+  active: boolean;
+  value: number | null;
+}
+
+export interface FiredAlert {
+  alert: RateAlert;
+  value: number | null;
+}
+
+export const SNOOZE_MS = 60 * 60 * 1000;
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = { spreadWarningPct: '5', warningDelaySec: '3', notifications: false };
+
+export const createAlert = (partial: Partial<RateAlert> = {}): RateAlert => ({
+  id: createId(),
+  kind: 'spread',
+  target: 'RUB',
+  side: 'buy',
+  threshold: '5',
+  direction: 'above',
+  baselineCb: null,
+  enabled: true,
+  triggeredAt: null,
+  acknowledged: false,
+  snoozedUntil: 0,
+  ...partial,
+});
+
+const oneOf = <T extends string>(values: T[]) => (v: unknown): v is T => values.includes(v as T);
+const isTime = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isTimeOrNull = (v: unknown): v is number | null => v === null || isTime(v);
+
+// Alerts are evaluated on every rate update, so a stored alert with any bad field is dropped rather than
+// allowed to throw there. Missing numeric fields and flags take their defaults.
+const sanitizeAlert = (raw: unknown): RateAlert | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const a = raw as Partial<Record<keyof RateAlert, unknown>>;
+  if (typeof a.id !== 'string' || typeof a.target !== 'string' || typeof a.threshold !== 'string') return null;
+  if (!oneOf<AlertKind>(['cbMove', 'rateCross', 'spread'])(a.kind) || !oneOf<'buy' | 'sell'>(['buy', 'sell'])(a.side)) return null;
+  if (!oneOf<'above' | 'below'>(['above', 'below'])(a.direction)) return null;
+  const optional = (v: unknown, valid: (v: unknown) => boolean) => v === undefined || valid(v);
+  if (!optional(a.baselineCb, isTimeOrNull) || !optional(a.triggeredAt, isTimeOrNull) || !optional(a.snoozedUntil, isTime)) return null;
+  const pick = <K extends keyof RateAlert>(key: K, valid: (v: unknown) => v is RateAlert[K]): Partial<RateAlert> => valid(a[key]) ? { [key]: a[key] } : {};
+  const isFlag = (v: unknown): v is boolean => typeof v === 'boolean';
+  return createAlert({
+    id: a.id,
+    kind: a.kind,
+    target: a.target,
+    side: a.side,
+    threshold: a.threshold,
+    direction: a.direction,
+    ...pick('baselineCb', isTimeOrNull),
+    ...pick('enabled', isFlag),
+    ...pick('triggeredAt', isTimeOrNull),
+    ...pick('acknowledged', isFlag),
+    ...pick('snoozedUntil', isTime),
+  });
+};
+
+export const sanitizeAlerts = (raw: unknown): RateAlert[] =>
+  Array.isArray(raw) ? raw.map(sanitizeAlert).filter((a): a is RateAlert => a !== null) : [];
+
+export const sanitizeAlertSettings = (raw: unknown): AlertSettings => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof AlertSettings, unknown>>;
+  const text = (v: unknown, fallback: string) => typeof v === 'string' || typeof v === 'number' ? String(v) : fallback;
+  return {
+    spreadWarningPct: text(data.spreadWarningPct, DEFAULT_ALERT_SETTINGS.spreadWarningPct),
+    warningDelaySec: text(data.warningDelaySec, DEFAULT_ALERT_SETTINGS.warningDelaySec),
+    notifications: typeof data.notifications === 'boolean' ? data.notifications : DEFAULT_ALERT_SETTINGS.notifications,
+  };
+};
+
+// --- EVALUATION ---
+const splitTarget = (target: string) => target.split('/').map(s => s.trim().toUpperCase());
+
+const cbOf = (target: string, ctx: AlertContext) => {
+  const [a, b] = splitTarget(target);
+  const ra = ctx.apiRates[a];
+  if (!b) return ra || null;
+  const rb = ctx.apiRates[b];
+  return ra && rb ? ra / rb : null;
+};
+
+const approxOf = (code: string, side: 'buy' | 'sell', ctx: AlertContext) => {
+  const cb = ctx.apiRates[code];
+  return cb ? rateFromSpread(cb, ctx.spreads[code]?.[side] || '0').toNumber() : null;
+};
+
+const spreadOf = (code: string, side: 'buy' | 'sell', ctx: AlertContext) => {
+  const entered = ctx.enteredRates[code]?.[side];
+  const cb = ctx.apiRates[code];
+  if (entered && cb) return calculateSpread(entered, cb);
+  const saved = parseFloat(ctx.spreads[code]?.[side] || '');
+  return isFinite(saved) ? saved : null;
+};
+
+export const currentValue = (alert: RateAlert, ctx: AlertContext): number | null => {
+  const [a, b] = splitTarget(alert.target);
+  if (alert.kind === 'cbMove') return cbOf(alert.target, ctx);
+  if (alert.kind === 'rateCross') {
+    if (!b) return approxOf(a, alert.side, ctx);
+    const give = approxOf(a, 'buy', ctx);
+    const receive = approxOf(b, 'sell', ctx);
+    return give && receive ? give / receive : null;
+  }
+  if (!b) return spreadOf(a, alert.side, ctx);
+  const legs = [spreadOf(a, 'buy', ctx), spreadOf(b, 'sell', ctx)].filter((v): v is number => v !== null);
+  return legs.length ? legs.reduce((m, v) => Math.abs(v) > Math.abs(m) ? v : m, 0) : null;
+};
+
+export const evaluateAlert = (alert: RateAlert, ctx: AlertContext): AlertEvaluation => {
+  const value = currentValue(alert, ctx);
+  const threshold = parseFloat(alert.threshold.replace(',', '.'));
+  if (value === null || !isFinite(threshold)) return { active: false, value };
+  if (alert.kind === 'cbMove') {
+    if (!alert.baselineCb) return { active: false, value };
+    return { active: Math.abs(calculateSpread(value, alert.baselineCb)) >= threshold, value };
+  }
+  if (alert.kind === 'rateCross') return { active: alert.direction === 'above' ? value >= threshold : value <= threshold, value };
+  return { active: Math.abs(value) >= threshold, value };
+};
+
+export const describeAlert = (alert: RateAlert, t: Translate) => {
+  const side = alert.target.includes('/') ? '' : ` ${t(alert.side === 'buy' ? 'alerts.side.buy' : 'alerts.side.sell')}`;
+  const params = { target: alert.target, side, threshold: alert.threshold };
+  if (alert.kind === 'cbMove') return t('alerts.describe.cbMove', params);
+  if (alert.kind === 'rateCross') return t('alerts.describe.rateCross', { ...params, op: alert.direction === 'above' ? '≥' : '≤' });
+  return t('alerts.describe.spread', params);
+};
+
+export const alertMessage = (alert: RateAlert, value: number | null, t: Translate) => {
+  if (value === null) return describeAlert(alert, t);
+  if (alert.kind === 'cbMove' && alert.baselineCb) {
+    return t('alerts.message.cbMove', { target: alert.target, value: formatFixed(value, 4), change: formatFixed(calculateSpread(value, alert.baselineCb), 2) });
+  }
+  if (alert.kind === 'rateCross') return t('alerts.message.rateCross', { target: alert.target, value: formatFixed(value, 4), threshold: alert.threshold });
+  return t('alerts.message.spread', { target: alert.target, value: formatPercent(value) });
+};
+
+// Fires alerts whose condition became true; re-arms the ones whose condition cleared.
+export const processAlerts = (alerts: RateAlert[], ctx: AlertContext, now: number = Date.now()) => {
+  const fired: FiredAlert[] = [];
+  let changed = false;
+  const next = alerts.map(alert => {
+    if (!alert.enabled) return alert;
+    const { active, value } = evaluateAlert(alert, ctx);
+    let updated = alert;
+    if (alert.kind === 'cbMove' && !alert.baselineCb && value) updated = { ...updated, baselineCb: value };
+    if (active && updated.triggeredAt === null && now >= updated.snoozedUntil) {
+      updated = { ...updated, triggeredAt: now, acknowledged: false };
+      fired.push({ alert: updated, value });
+    } else if (!active && updated.triggeredAt !== null) {
+      updated = { ...updated, triggeredAt: null, acknowledged: false };
+    }
+    if (updated !== alert) changed = true;
+    return updated;
+  });
+  return { alerts: changed ? next : alerts, fired };
+};
+
+export const acknowledgeAlert = (alert: RateAlert, ctx: AlertContext): RateAlert =>
+  alert.kind === 'cbMove'
+    ? { ...alert, baselineCb: cbOf(alert.target, ctx), triggeredAt: null, acknowledged: false }
+    : { ...alert, acknowledged: true };
+
+export const snoozeAlert = (alert: RateAlert, now: number = Date.now()): RateAlert =>
+  ({ ...alert, triggeredAt: null, acknowledged: false, snoozedUntil: now + SNOOZE_MS });
+
+export const notify = (title: string, body: string) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag: title });
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker
+  }
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { Decimal } from './decimal';
+import { LegFees, NO_FEES } from './fees';
+import { ArbitrageInput, calculateArbitrage, crossRate } from './arbitrage';
+
+// RUB → USDT → THB → RUB with 2.5 RUB per THB on the way back
+const input = (patch: Partial<ArbitrageInput> = {}): ArbitrageInput => ({ buyRate: '95', sellRate: '40', returnRate: '2.5', amount: '95000', ...patch });
+const networkFee: LegFees = { ...NO_FEES, network: { pct: Decimal.ZERO, fixed: Decimal.from(1) } };
+
+describe('calculateArbitrage', () => {
+  it('walks the round trip', () => {
+    const result = calculateArbitrage(input())!;
+    expect(result.usdt.toString()).toBe('1000');
+    expect(result.received.toString()).toBe('40000');
+    expect(result.returned.toString()).toBe('100000');
+    expect(result.profit.toString()).toBe('5000');
+    expect(result.profitPct).toBeCloseTo(5.263, 3);
+  });
+
+  it('finds the sell rate that breaks even', () => {
+    expect(calculateArbitrage(input())?.breakEvenSellRate?.toString()).toBe('38');
+    const withFees = calculateArbitrage(input({ fees: networkFee }))!;
+    const atBreakEven = calculateArbitrage(input({ fees: networkFee, sellRate: withFees.breakEvenSellRate! }))!;
+    expect(atBreakEven.profit.round(6).isZero()).toBe(true);
+  });
+
+  it('needs no minimum volume without fixed fees', () => {
+    expect(calculateArbitrage(input())?.minVolume?.isZero()).toBe(true);
+  });
+
+  it('finds the volume where fixed fees are paid off', () => {
+    // 1 USDT of network fee costs 100 RUB on the way back; each RUB of volume earns 5/95 of itself
+    const result = calculateArbitrage(input({ fees: networkFee }))!;
+    expect(result.minVolume?.round(6).toString()).toBe('1900');
+    expect(calculateArbitrage(input({ fees: networkFee, amount: '1900' }))?.profit.round(6).isZero()).toBe(true);
+  });
+
+  it('has no minimum volume for a losing trip', () => {
+    const result = calculateArbitrage(input({ sellRate: '36' }))!;
+    expect(result.profit.isNegative()).toBe(true);
+    expect(result.minVolume).toBeNull();
+  });
+
+  it('rejects missing rates', () => {
+    expect(calculateArbitrage(input({ returnRate: '0' }))).toBeNull();
+    expect(calculateArbitrage(input({ buyRate: '' }))).toBeNull();
+  });
+});
+
+describe('crossRate', () => {
+  it('quotes one currency in another through USD', () => {
+    expect(crossRate({ RUB: 90, THB: 36 }, 'RUB', 'THB')?.toString()).toBe('2.5');
+    expect(crossRate({ RUB: 90 }, 'RUB', 'THB')).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { Decimal } from './decimal';
+import { LegFees, NO_FEES } from './fees';
+import { convertAmounts, parseDecimal } from './calcEngine';
+
+// Round trip A → USDT → B → A: buy USDT with A, sell it for B, convert B back to A.
+
+export interface ArbitrageInput {
+  buyRate: Decimal | string | number;    // A per 1 USDT
+  sellRate: Decimal | string | number;   // B per 1 USDT
+  returnRate: Decimal | string | number; // A per 1 B
+  amount: Decimal | string | number;     // starting volume in A
+  fees?: LegFees;
+}
+
+export interface ArbitrageResult {
+  start: Decimal;
+  usdt: Decimal;
+  received: Decimal;   // B after the sell leg
+  returned: Decimal;   // A after converting B back
+  profit: Decimal;
+  profitPct: number;
+  breakEvenSellRate: Decimal | null;
+  minVolume: Decimal | null; // null when the round trip loses money at any volume
+}
+
+// Volumes large enough that fixed fees never clip an amount to zero, so profit is affine in volume.
+const PROBE_LOW = Decimal.from(1_000_000);
+const PROBE_HIGH = Decimal.from(2_000_000);
+
+const roundTrip = (input: ArbitrageInput, amount: Decimal) => {
+  const conv = convertAmounts({ buyRate: input.buyRate, sellRate: input.sellRate, anchor: 'buy', amount, fees: input.fees });
+  if (!conv) return null;
+  return { conv, returned: conv.sell.times(parseDecimal(input.returnRate)) };
+};
+
+export const calculateArbitrage = (input: ArbitrageInput): ArbitrageResult | null => {
+  const fees = input.fees ?? NO_FEES;
+  const r = parseDecimal(input.returnRate);
+  const start = parseDecimal(input.amount);
+  if (!r.isPositive()) return null;
+  const trip = roundTrip(input, start);
+  if (!trip) return null;
+  const { conv, returned } = trip;
+  const profit = returned.minus(start);
+
+  // receiveNet = usdtSold * s * (1 - pct) - fixed, so the s that returns exactly `start` is linear to solve.
+  const keep = Decimal.from(1).minus(fees.sellFiat.pct.div(100));
+  const sold = conv.breakdown.usdtSold;
+  const breakEvenSellRate = sold.isPositive() && keep.isPositive()
+    ? start.div(r).plus(fees.sellFiat.fixed).div(sold.times(keep))
+    : null;
+
+  // profit(V) = k * V - F; F is what fixed fees cost, k the margin per unit of volume.
+  const low = roundTrip(input, PROBE_LOW);
+  const high = roundTrip(input, PROBE_HIGH);
+  let minVolume: Decimal | null = null;
+  if (low && high) {
+    const pLow = low.returned.minus(PROBE_LOW);
+    const k = high.returned.minus(PROBE_HIGH).minus(pLow).div(PROBE_HIGH.minus(PROBE_LOW));
+    if (k.isPositive()) {
+      const fixedCost = k.times(PROBE_LOW).minus(pLow);
+      minVolume = fixedCost.isPositive() ? fixedCost.div(k) : Decimal.ZERO;
+    }
+  }
+
+  return {
+    start,
+    usdt: conv.usdt,
+    received: conv.sell,
+    returned,
+    profit,
+    profitPct: start.isPositive() ? profit.div(start).times(100).toNumber() : 0,
+    breakEvenSellRate,
+    minVolume,
+  };
+};
+
+// CB cross rate from USD-quoted rates: units of `quote` per 1 `base`.
+export const crossRate = (rates: Record<string, number>, quote: string, base: string) => {
+  const q = rates[quote];
+  const b = rates[base];
+  return q && b ? Decimal.from(q).div(b) : null;
+};
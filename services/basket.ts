@@ -0,0 +1,60 @@
+import { Decimal } from './decimal';
+import { FeeRule, resolveLegFees } from './fees';
+import { SpreadMap, calculateSpread, convertAmounts, rateFromSpread } from './calcEngine';
+
+// One Give amount quoted into every configured currency. The Give leg uses the calculator's buy rate;
+// each Receive leg is priced from the CB rate plus that currency's saved sell spread, fees included.
+
+export interface BasketRow {
+  currency: string;
+  sellRate: Decimal | null;   // currency per 1 USDT
+  received: Decimal | null;
+  effectiveRate: Decimal | null; // Give per 1 received, all-in
+  spread: number | null;      // effective rate vs the CB cross rate, %
+  usdValue: number | null;    // for ranking rows across currencies
+}
+
+export type BasketSort = 'currency' | 'value' | 'spread';
+
+export interface BasketInput {
+  sourceCurr: string;
+  amount: Decimal | string;
+  buyRate: Decimal | string;
+  currencies: string[];
+  apiRates: Record<string, number>;
+  spreads: SpreadMap;
+  feeRules: FeeRule[];
+}
+
+const emptyRow = (currency: string): BasketRow => ({ currency, sellRate: null, received: null, effectiveRate: null, spread: null, usdValue: null });
+
+export const buildBasket = ({ sourceCurr, amount, buyRate, currencies, apiRates, spreads, feeRules }: BasketInput): BasketRow[] =>
+  [...new Set(currencies)].filter(c => c !== sourceCurr).map(currency => {
+    const cb = apiRates[currency];
+    if (!cb) return emptyRow(currency);
+    const sellRate = rateFromSpread(cb, spreads[currency]?.sell || '0');
+    const result = convertAmounts({ buyRate, sellRate, anchor: 'buy', amount, fees: resolveLegFees(feeRules, sourceCurr, currency) });
+    if (!result) return { ...emptyRow(currency), sellRate };
+    const effectiveRate = result.breakdown.effectiveRate.isPositive() ? result.breakdown.effectiveRate : null;
+    const cbSource = apiRates[sourceCurr];
+    return {
+      currency,
+      sellRate,
+      received: result.sell,
+      effectiveRate,
+      spread: effectiveRate && cbSource ? calculateSpread(effectiveRate.toNumber(), cbSource / cb) : null,
+      usdValue: result.sell.toNumber() / cb,
+    };
+  });
+
+// Rows without a quote always go last
+export const sortBasket = (rows: BasketRow[], by: BasketSort, desc: boolean) => {
+  const key = (r: BasketRow) => by === 'value' ? r.usdValue : by === 'spread' ? r.spread : null;
+  return [...rows].sort((a, b) => {
+    if (by === 'currency') return (desc ? -1 : 1) * a.currency.localeCompare(b.currency);
+    const ka = key(a);
+    const kb = key(b);
+    if (ka === null || kb === null) return ka === kb ? 0 : ka === null ? 1 : -1;
+    return desc ? kb - ka : ka - kb;
+  });
+};
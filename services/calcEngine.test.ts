@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { Decimal } from './decimal';
+import { convertAmounts, formatInputString, parseDecimal } from './calcEngine';
+import { NUMBER_FORMATS } from './i18n';
+
+describe('convertAmounts', () => {
+  const rates = { buyRate: '95', sellRate: '33' };
+
+  it('keeps the Give amount when anchored on buy', () => {
+    const r = convertAmounts({ ...rates, anchor: 'buy', amount: '9500' })!;
+    expect(r.buy.toString()).toBe('9500');
+    expect(r.usdt.toString()).toBe('100');
+    expect(r.sell.toString()).toBe('3300');
+  });
+
+  it('keeps the Receive amount when anchored on sell', () => {
+    const r = convertAmounts({ ...rates, anchor: 'sell', amount: '3300' })!;
+    expect(r.sell.toString()).toBe('3300');
+    expect(r.usdt.toString()).toBe('100');
+    expect(r.buy.toString()).toBe('9500');
+  });
+
+  it('keeps the USDT amount when anchored on usdt', () => {
+    const r = convertAmounts({ ...rates, anchor: 'usdt', amount: '100' })!;
+    expect(r.usdt.toString()).toBe('100');
+    expect(r.buy.toString()).toBe('9500');
+    expect(r.sell.toString()).toBe('3300');
+  });
+
+  it('returns null for zero or empty rates', () => {
+    expect(convertAmounts({ buyRate: '0', sellRate: '33', anchor: 'buy', amount: '100' })).toBeNull();
+    expect(convertAmounts({ buyRate: '95', sellRate: '', anchor: 'buy', amount: '100' })).toBeNull();
+    expect(convertAmounts({ buyRate: '', sellRate: '', anchor: 'sell', amount: '100' })).toBeNull();
+  });
+
+  it('treats an empty amount as zero', () => {
+    const r = convertAmounts({ ...rates, anchor: 'buy', amount: '' })!;
+    expect(r.sell.isZero()).toBe(true);
+  });
+});
+
+describe('parseDecimal', () => {
+  it('reads locale input with a space group and a comma decimal', () => {
+    expect(parseDecimal('10 000,5').toString()).toBe('10000.5');
+  });
+
+  it('reads comma-grouped input', () => {
+    expect(parseDecimal('10,000.5').toString()).toBe('10000.5');
+    expect(parseDecimal('1.234,5', { group: '.', decimal: ',' }).toString()).toBe('1234.5');
+  });
+
+  it('reads empty input as zero', () => {
+    expect(parseDecimal('').isZero()).toBe(true);
+  });
+
+  it('reads a lone comma as grouping only before three digits in English', () => {
+    const { en } = NUMBER_FORMATS;
+    expect(parseDecimal('1,5', en).toString()).toBe('1.5');
+    expect(parseDecimal('10 000,5', en).toString()).toBe('10000.5');
+    expect(parseDecimal('1,234', en).toString()).toBe('1234');
+    expect(parseDecimal('1,000,000', en).toString()).toBe('1000000');
+  });
+
+  it('reads a lone dot as the decimal mark in Russian', () => {
+    const { ru } = NUMBER_FORMATS;
+    expect(parseDecimal('1,234', ru).toString()).toBe('1.234');
+    expect(parseDecimal('1.5', ru).toString()).toBe('1.5');
+    expect(parseDecimal('1.000.000', ru).toString()).toBe('1000000');
+  });
+});
+
+describe('formatInputString', () => {
+  it('keeps a typed comma decimal in English', () => {
+    const { en } = NUMBER_FORMATS;
+    expect(formatInputString('1,5', en)).toBe('1.5');
+    expect(formatInputString('10 000,5', en)).toBe('10,000.5');
+    expect(formatInputString('10000.5', en)).toBe('10,000.5');
+    expect(formatInputString('1,000.5', en)).toBe('1,000.5');
+  });
+
+  it('re-groups English input as digits are typed', () => {
+    const { en } = NUMBER_FORMATS;
+    expect(formatInputString('1000', en)).toBe('1,000');
+    expect(formatInputString('1,0000', en)).toBe('10,000');
+    expect(formatInputString('1,000.', en)).toBe('1,000.');
+  });
+
+  it('formats Russian input with a space group and a comma decimal', () => {
+    const { ru } = NUMBER_FORMATS;
+    expect(formatInputString('10 000,5', ru)).toBe('10 000,5');
+    expect(formatInputString('10000.5', ru)).toBe('10 000,5');
+    expect(formatInputString('1 000,5,', ru)).toBe('1 000,5');
+    expect(formatInputString('1,000.5', ru)).toBe('1 000,5');
+  });
+
+  it('shows the value it parses to', () => {
+    for (const format of [NUMBER_FORMATS.en, NUMBER_FORMATS.ru]) {
+      for (const typed of ['1,5', '10 000,5', '1,234', '1.5', '12345.67']) {
+        expect(parseDecimal(formatInputString(typed, format), format).toString()).toBe(parseDecimal(typed, format).toString());
+      }
+    }
+  });
+});
+
+describe('Decimal.toFixed', () => {
+  it('rounds half up', () => {
+    expect(Decimal.from('1.005').toFixed(2)).toBe('1.01');
+    expect(Decimal.from('1.004').toFixed(2)).toBe('1.00');
+    expect(Decimal.from('2.5').toFixed(0)).toBe('3');
+  });
+
+  it('rounds negative halves away from zero', () => {
+    expect(Decimal.from('-1.005').toFixed(2)).toBe('-1.01');
+    expect(Decimal.from('-1.004').toFixed(2)).toBe('-1.00');
+    expect(Decimal.from('-2.5').toFixed(0)).toBe('-3');
+  });
+
+  it('avoids float drift', () => {
+    expect(Decimal.from(0.1).plus(0.2).toString()).toBe('0.3');
+    expect(Decimal.from(1000).div(3).times(3).toFixed(2)).toBe('1000.00');
+  });
+});
@@ -0,0 +1,232 @@
+import { Decimal } from './decimal';
+import { FeeStep, LegFees, NO_FEES } from './fees';
+
+// Pure conversion math behind the Give → Equivalent (USDT) → Receive chain.
+// Rates are "units of currency per 1 USDT": Give = USDT * buyRate, Receive = USDT * sellRate.
+
+export type AnchorField = 'buy' | 'sell' | 'usdt';
+
+// Markup over the CB rate in percent, per currency: `buy` when paying with it, `sell` when receiving it.
+export type SpreadMap = Record<string, { buy: string; sell: string }>;
+
+export interface ConversionInput {
+  buyRate: Decimal | string | number;
+  sellRate: Decimal | string | number;
+  anchor: AnchorField;
+  amount: Decimal | string | number;
+  fees?: LegFees;
+}
+
+// Every point of the chain; without fees the gross and net values coincide.
+export interface FeeBreakdown {
+  giveGross: Decimal;
+  giveNet: Decimal;       // Give currency actually converted to USDT
+  usdtBought: Decimal;
+  usdtCredited: Decimal;  // the Equivalent field
+  usdtDelivered: Decimal; // after network fees
+  usdtSold: Decimal;
+  receiveGross: Decimal;
+  receiveNet: Decimal;
+  totalFeeUsdt: Decimal;
+  feePct: number;
+  effectiveRate: Decimal; // Give per 1 Receive, all-in
+  baseRate: Decimal;      // Give per 1 Receive, fee-free
+}
+
+export interface ConversionResult {
+  buy: Decimal;
+  sell: Decimal;
+  usdt: Decimal;
+  breakdown: FeeBreakdown;
+}
+
+export interface FormattedAmounts {
+  amountBuy: string;
+  amountSale: string;
+  amountUsdt: string;
+}
+
+export interface RateInfo {
+  cb: string;
+  set: string;
+  diff: string;
+  diffVal: number;
+}
+
+// Digit grouping and decimal mark used for every amount typed or shown.
+export interface NumberFormat {
+  group: string;
+  decimal: string;
+}
+
+export const DEFAULT_DECIMALS = 2;
+
+// Decimals actually quoted in P2P deals; ISO 4217 lists 2 for IDR, but nobody trades rupiah cents.
+const CURRENCY_DECIMALS: Record<string, number> = { IDR: 0, KRW: 0, JPY: 0, VND: 0, UZS: 0, CLP: 0, BTC: 8, ETH: 8 };
+
+export const currencyDecimals = (code: string) => CURRENCY_DECIMALS[code] ?? DEFAULT_DECIMALS;
+
+// Rates per USDT keep at least two decimals even for zero-decimal currencies.
+export const rateDecimals = (code: string) => Math.max(DEFAULT_DECIMALS, currencyDecimals(code));
+
+// Switched by the language setting; the default keeps the historical "10 000.5" look.
+let activeFormat: NumberFormat = { group: ' ', decimal: '.' };
+
+export const setNumberFormat = (format: NumberFormat) => { activeFormat = format; };
+export const getNumberFormat = () => activeFormat;
+
+// --- PARSING / FORMATTING ---
+// Decides which of "," and "." is the decimal mark; shared by parsing and by re-formatting while typing.
+// With both present the last one wins. With one kind of mark:
+//  - marks that split the digits into exact groups of three ("1,000,000") are grouping;
+//  - the locale's own decimal mark: the first one is the decimal, strays typed after it are dropped;
+//  - any other mark: all but the last are grouping, and the last one is grouping too when it is the locale's
+//    grouping mark followed by three or more digits ("1,234", or "1,0000" after a digit is typed into "1,000").
+//    Otherwise it is the decimal, so "1,5" and "10 000,5" keep their fraction in every language.
+const normalizeMarks = (s: string, format: NumberFormat) => {
+  const lastComma = s.lastIndexOf(',');
+  const lastDot = s.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    const [grouping, decimal] = lastComma > lastDot ? ['.', ','] : [',', '.'];
+    return s.split(grouping).join('').replace(decimal, '.');
+  }
+  const mark = lastComma !== -1 ? ',' : lastDot !== -1 ? '.' : null;
+  if (!mark) return s;
+  const parts = s.split(mark);
+  const grouped = parts.length > 2 && parts.slice(1).every(p => /^\d{3}$/.test(p));
+  if (grouped) return parts.join('');
+  if (mark === format.decimal) return parts[0] + '.' + parts.slice(1).join('');
+  const tail = parts[parts.length - 1];
+  const lastGroups = mark === format.group && /^\d{3}/.test(tail);
+  return parts.slice(0, -1).join('') + (lastGroups ? '' : '.') + tail;
+};
+
+// Accepts user input such as "10 000,5", "10,000.5", "10000.5" or "1 234" (spaces, NBSP, either decimal mark).
+export const parseDecimal = (val: Decimal | string | number | null | undefined, format: NumberFormat = activeFormat): Decimal => {
+  if (val instanceof Decimal) return val;
+  if (val === null || val === undefined || val === '') return Decimal.ZERO;
+  if (typeof val === 'number') return Decimal.from(val);
+  const cleaned = normalizeMarks(val.toString().replace(/\s/g, ''), format);
+  const m = /^-?\d*\.?\d*/.exec(cleaned);
+  return Decimal.from(m ? m[0] : '');
+};
+
+export const parseAmount = (val: string) => parseDecimal(val).toNumber();
+
+// Re-groups a value while it is typed. Marks are read exactly as parseDecimal reads them, so the value shown
+// is always the value calculated.
+export const formatInputString = (val: string, format: NumberFormat = activeFormat) => {
+  let clean = normalizeMarks(val.replace(/[^\d.,-]/g, ''), format);
+  const parts = clean.split('.');
+  if (parts.length > 2) clean = parts[0] + '.' + parts.slice(1).join('');
+  const group = (digits: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, format.group);
+  const dotIndex = clean.indexOf('.');
+  if (dotIndex !== -1) return group(clean.substring(0, dotIndex)) + format.decimal + clean.substring(dotIndex + 1);
+  return group(clean);
+};
+
+// Rewrites a value typed under one format for another, keeping exactly the digits the user entered.
+export const convertNumberFormat = (val: string, from: NumberFormat, to: NumberFormat) => {
+  let clean = val.replace(/\s/g, '');
+  if (from.group.trim()) clean = clean.split(from.group).join('');
+  return formatInputString(clean.replace(from.decimal, '.'), to);
+};
+
+// Integers are shown without decimals, everything else rounded half-up to `decimals`.
+export const formatAmount = (val: Decimal | number, decimals: number = DEFAULT_DECIMALS, format: NumberFormat = activeFormat) => {
+  if (typeof val === 'number' && !isFinite(val)) return '';
+  const d = Decimal.from(val);
+  return formatInputString(d.isInteger() ? d.toString() : d.toFixed(decimals), format);
+};
+
+export const formatMoney = (val: Decimal | number, currency: string) => formatAmount(val, currencyDecimals(currency));
+
+// Fixed decimals without grouping, for rates and percentages in running text.
+export const formatFixed = (val: Decimal | number, decimals: number, format: NumberFormat = activeFormat) =>
+  val.toFixed(decimals).replace('.', format.decimal);
+
+export const formatPercent = (val: number, decimals: number = DEFAULT_DECIMALS) => `${val >= 0 ? '+' : ''}${formatFixed(val, decimals)}%`;
+
+// --- RATES ---
+export const calculateSpread = (rate: number, cb: number) => {
+  if (!rate || !cb) return 0;
+  if (Math.abs(rate - cb) < 0.00000001) return 0;
+  return Decimal.from(rate).minus(cb).div(cb).times(100).toNumber();
+};
+
+export const rateFromSpread = (cb: number, spreadPct: string | number) =>
+  Decimal.from(cb).times(parseDecimal(spreadPct).div(100).plus(1));
+
+export const describeRate = (rateStr: string, cb: number | undefined, displayPrecision: number = DEFAULT_DECIMALS): RateInfo | null => {
+  const r = parseAmount(rateStr);
+  if (!r || !cb) return null;
+  const diff = calculateSpread(r, cb);
+  const absDiff = Math.abs(diff);
+  const diffStr = absDiff < 0.005 ? formatFixed(0, 2) + '%' : (diff > 0 ? '+' : '-') + formatFixed(absDiff, displayPrecision) + '%';
+  return {
+    cb: formatFixed(Decimal.from(cb), displayPrecision),
+    set: formatFixed(Decimal.from(r), displayPrecision),
+    diff: diffStr,
+    diffVal: diff,
+  };
+};
+
+// --- CONVERSION ---
+const applyFee = (x: Decimal, step: FeeStep) => {
+  const out = x.minus(x.times(step.pct).div(100)).minus(step.fixed);
+  return out.isNegative() ? Decimal.ZERO : out;
+};
+
+const removeFee = (x: Decimal, step: FeeStep) => {
+  const keep = Decimal.from(1).minus(step.pct.div(100));
+  return keep.isPositive() ? x.plus(step.fixed).div(keep) : Decimal.ZERO;
+};
+
+// Recomputes all three amounts from the anchored one. Returns null when either rate is not positive.
+export const convertAmounts = ({ buyRate, sellRate, anchor, amount, fees = NO_FEES }: ConversionInput): ConversionResult | null => {
+  const b = parseDecimal(buyRate);
+  const s = parseDecimal(sellRate);
+  if (!b.isPositive() || !s.isPositive()) return null;
+  const a = parseDecimal(amount);
+
+  // Resolve the Equivalent (USDT credited after the buy leg), then walk the chain both ways from it.
+  let usdtCredited: Decimal;
+  if (anchor === 'buy') usdtCredited = applyFee(applyFee(a, fees.buyFiat).div(b), fees.buyUsdt);
+  else if (anchor === 'sell') usdtCredited = removeFee(removeFee(removeFee(a, fees.sellFiat).div(s), fees.sellUsdt), fees.network);
+  else usdtCredited = a;
+
+  const usdtBought = anchor === 'buy' ? applyFee(a, fees.buyFiat).div(b) : removeFee(usdtCredited, fees.buyUsdt);
+  const giveNet = usdtBought.times(b);
+  const giveGross = anchor === 'buy' ? a : removeFee(giveNet, fees.buyFiat);
+  const usdtDelivered = applyFee(usdtCredited, fees.network);
+  const usdtSold = applyFee(usdtDelivered, fees.sellUsdt);
+  const receiveGross = usdtSold.times(s);
+  const receiveNet = anchor === 'sell' ? a : applyFee(receiveGross, fees.sellFiat);
+
+  const totalFeeUsdt = giveGross.minus(giveNet).div(b)
+    .plus(usdtBought.minus(usdtSold))
+    .plus(receiveGross.minus(receiveNet).div(s));
+  const grossUsdt = giveGross.div(b);
+
+  return {
+    buy: giveGross,
+    usdt: usdtCredited,
+    sell: receiveNet,
+    breakdown: {
+      giveGross, giveNet, usdtBought, usdtCredited, usdtDelivered, usdtSold, receiveGross, receiveNet, totalFeeUsdt,
+      feePct: grossUsdt.isPositive() ? totalFeeUsdt.div(grossUsdt).times(100).toNumber() : 0,
+      effectiveRate: receiveNet.isPositive() ? giveGross.div(receiveNet) : Decimal.ZERO,
+      baseRate: b.div(s),
+    },
+  };
+};
+
+// `decimals` per field, e.g. from currencyDecimals() of the Give and Receive currencies.
+export const formatConversion = (result: ConversionResult, decimals: Partial<Record<AnchorField, number>> = {}): FormattedAmounts => ({
+  amountBuy: formatAmount(result.buy, decimals.buy ?? DEFAULT_DECIMALS),
+  amountSale: formatAmount(result.sell, decimals.sell ?? DEFAULT_DECIMALS),
+  amountUsdt: formatAmount(result.usdt, decimals.usdt ?? DEFAULT_DECIMALS),
+});
+
+export const anchorAmount = (anchor: AnchorField, amounts: FormattedAmounts) =>
+  anchor === 'buy' ? amounts.amountBuy : anchor === 'sell' ? amounts.amountSale : amounts.amountUsdt;
@@ -0,0 +1,81 @@
+// Fixed-point decimal on top of BigInt (18 fractional digits). Enough precision for P2P
+// amounts and rates while avoiding float drift like 0.1 + 0.2 or 1000 / 3 * 3.
+
+const SCALE = 18;
+const ONE = 10n ** BigInt(SCALE);
+
+type DecimalLike = Decimal | string | number;
+
+const divRound = (num: bigint, den: bigint) => {
+  const q = num / den;
+  const r = num % den;
+  if (r === 0n) return q;
+  const twice = (r < 0n ? -r : r) * 2n;
+  const absDen = den < 0n ? -den : den;
+  if (twice < absDen) return q;
+  return (num < 0n) !== (den < 0n) ? q - 1n : q + 1n;
+};
+
+const parseUnits = (str: string): bigint | null => {
+  const m = /^(-?)(\d*)(?:\.(\d*))?$/.exec(str);
+  if (!m || (!m[2] && !m[3])) return null;
+  const frac = (m[3] || '').padEnd(SCALE + 1, '0');
+  let units = BigInt(m[2] || '0') * ONE + BigInt(frac.slice(0, SCALE));
+  if (Number(frac[SCALE]) >= 5) units += 1n;
+  return m[1] ? -units : units;
+};
+
+export class Decimal {
+  static readonly ZERO = new Decimal(0n);
+
+  private constructor(private readonly units: bigint) {}
+
+  static from(value: DecimalLike): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === 'number') {
+      if (!isFinite(value)) return Decimal.ZERO;
+      const str = /e/i.test(String(value)) ? value.toFixed(SCALE) : String(value);
+      return new Decimal(parseUnits(str) ?? 0n);
+    }
+    return new Decimal(parseUnits(value.trim()) ?? 0n);
+  }
+
+  plus(other: DecimalLike) { return new Decimal(this.units + Decimal.from(other).units); }
+  minus(other: DecimalLike) { return new Decimal(this.units - Decimal.from(other).units); }
+  times(other: DecimalLike) { return new Decimal(divRound(this.units * Decimal.from(other).units, ONE)); }
+
+  // Division by zero yields zero; callers guard against empty rates before dividing.
+  div(other: DecimalLike) {
+    const d = Decimal.from(other).units;
+    return d === 0n ? Decimal.ZERO : new Decimal(divRound(this.units * ONE, d));
+  }
+
+  neg() { return new Decimal(-this.units); }
+  abs() { return this.units < 0n ? this.neg() : this; }
+  cmp(other: DecimalLike) { const o = Decimal.from(other).units; return this.units === o ? 0 : this.units > o ? 1 : -1; }
+  isZero() { return this.units === 0n; }
+  isPositive() { return this.units > 0n; }
+  isNegative() { return this.units < 0n; }
+  isInteger() { return this.units % ONE === 0n; }
+
+  round(decimals: number) {
+    const factor = 10n ** BigInt(SCALE - decimals);
+    return new Decimal(divRound(this.units, factor) * factor);
+  }
+
+  toFixed(decimals: number) {
+    const factor = 10n ** BigInt(SCALE - decimals);
+    const q = divRound(this.units, factor);
+    const neg = q < 0n;
+    const digits = (neg ? -q : q).toString().padStart(decimals + 1, '0');
+    const int = digits.slice(0, digits.length - decimals);
+    const frac = decimals > 0 ? '.' + digits.slice(digits.length - decimals) : '';
+    return (neg ? '-' : '') + int + frac;
+  }
+
+  toString() {
+    return this.toFixed(SCALE).replace(/\.?0+$/, '') || '0';
+  }
+
+  toNumber() { return Number(this.toString()); }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Decimal } from './decimal';
+import { convertAmounts } from './calcEngine';
+import { FEE_PRESETS, FeeRule, NO_FEES, createFeeRule, hasFees, resolveLegFees, sanitizeFeeRules } from './fees';
+
+// Every preset, with the zero bank fee set to 50 so each chain point carries something
+const presets = (): FeeRule[] => FEE_PRESETS.map(({ labelKey: _, ...rule }) => createFeeRule({ ...rule, value: rule.value === '0' ? '50' : rule.value }));
+
+describe('resolveLegFees', () => {
+  it('sorts rules into their chain points', () => {
+    const fees = resolveLegFees(presets(), 'RUB', 'THB');
+    expect(fees.buyFiat.pct.toString()).toBe('1');
+    expect(fees.buyUsdt.pct.toString()).toBe('0.1');
+    expect(fees.network.fixed.toString()).toBe('1');
+    expect(fees.sellUsdt.pct.toString()).toBe('0.1');
+    expect(fees.sellFiat.fixed.toString()).toBe('50');
+  });
+
+  it('adds up rules on the same point and skips disabled ones', () => {
+    const rules = [
+      createFeeRule({ leg: 'buy', value: '1' }),
+      createFeeRule({ leg: 'buy', value: '0,5' }),
+      createFeeRule({ leg: 'buy', kind: 'fixed', value: '100' }),
+      createFeeRule({ leg: 'buy', value: '7', enabled: false }),
+    ];
+    const fees = resolveLegFees(rules, 'RUB', 'THB');
+    expect(fees.buyFiat).toEqual({ pct: Decimal.from(1.5), fixed: Decimal.from(100) });
+  });
+
+  it('applies a currency rule only to the leg in that currency', () => {
+    const rules = [createFeeRule({ leg: 'buy', currency: 'RUB', value: '1' }), createFeeRule({ leg: 'sell', currency: 'RUB', value: '2' })];
+    expect(resolveLegFees(rules, 'RUB', 'THB').buyFiat.pct.toString()).toBe('1');
+    expect(resolveLegFees(rules, 'RUB', 'THB').sellFiat.pct.isZero()).toBe(true);
+    expect(resolveLegFees(rules, 'THB', 'RUB').sellFiat.pct.toString()).toBe('2');
+  });
+
+  it('reports whether any fee is left', () => {
+    expect(hasFees(NO_FEES)).toBe(false);
+    expect(hasFees(resolveLegFees([createFeeRule({ value: '0' })], 'RUB', 'THB'))).toBe(false);
+    expect(hasFees(resolveLegFees(presets(), 'RUB', 'THB'))).toBe(true);
+  });
+});
+
+describe('fees in the conversion chain', () => {
+  const fees = resolveLegFees(presets(), 'RUB', 'THB');
+  const rates = { buyRate: '95', sellRate: '35', fees };
+  const round = (d: Decimal | undefined) => d?.round(6).toString();
+
+  it('gives the same deal from whichever amount is anchored', () => {
+    const fromGive = convertAmounts({ ...rates, anchor: 'buy', amount: '95000' })!;
+    const fromReceive = convertAmounts({ ...rates, anchor: 'sell', amount: fromGive.sell })!;
+    const fromUsdt = convertAmounts({ ...rates, anchor: 'usdt', amount: fromGive.usdt })!;
+    expect(round(fromReceive.buy)).toBe('95000');
+    expect(round(fromUsdt.buy)).toBe('95000');
+    expect(round(fromUsdt.sell)).toBe(round(fromGive.sell));
+  });
+
+  it('accounts for every fee in the total', () => {
+    const { breakdown } = convertAmounts({ ...rates, anchor: 'buy', amount: '95000' })!;
+    const feeFree = convertAmounts({ buyRate: '95', sellRate: '35', anchor: 'buy', amount: '95000' })!;
+    // Fee-free, 95 000 RUB buys 1000 USDT; whatever did not reach the receiver went to fees
+    const lost = Decimal.from(1000).minus(breakdown.receiveNet.div(35));
+    expect(round(breakdown.totalFeeUsdt)).toBe(round(lost));
+    expect(feeFree.breakdown.totalFeeUsdt.isZero()).toBe(true);
+  });
+
+  it('never lets a fixed fee push an amount below zero', () => {
+    const big = resolveLegFees([createFeeRule({ leg: 'network', kind: 'fixed', value: '5000' })], 'RUB', 'THB');
+    expect(convertAmounts({ buyRate: '95', sellRate: '35', anchor: 'buy', amount: '95000', fees: big })?.sell.isZero()).toBe(true);
+  });
+});
+
+describe('sanitizeFeeRules', () => {
+  it('drops rules without a valid leg or kind and resets other bad fields', () => {
+    const rules = sanitizeFeeRules([
+      { id: 'a', leg: 'buy', kind: 'percent', value: 1, denomination: 'btc', enabled: 'no' },
+      { id: 'b', leg: 'swap', kind: 'percent' },
+      { leg: 'buy', kind: 'fixed' },
+    ]);
+    expect(rules).toHaveLength(1);
+    expect(rules[0]).toMatchObject({ id: 'a', value: '0', denomination: 'leg', enabled: true });
+  });
+});
@@ -0,0 +1,115 @@
+import { Decimal } from './decimal';
+import { MessageKey } from './i18n';
+import { createId } from './ids';
+
+// Fees along the Give → Equivalent → Receive chain.
+//  buy leg:     paying the Give currency for USDT (card commission, bank transfer, taker fee)
+//  network leg: moving USDT between venues (e.g. TRC20 withdrawal, 1 USDT)
+//  sell leg:    selling USDT for the Receive currency (maker fee, payout transfer)
+
+export type FeeLeg = 'buy' | 'network' | 'sell';
+export type FeeKind = 'percent' | 'fixed';
+// 'leg' = the fiat currency of the leg (Give for buy, Receive for sell); network fees are always USDT
+export type FeeDenomination = 'leg' | 'usdt';
+
+export interface FeeRule {
+  id: string;
+  label: string;
+  leg: FeeLeg;
+  currency: string; // currency code the rule is limited to, '*' for any
+  kind: FeeKind;
+  value: string;
+  denomination: FeeDenomination;
+  enabled: boolean;
+}
+
+export interface FeeStep {
+  pct: Decimal;
+  fixed: Decimal;
+}
+
+export interface LegFees {
+  buyFiat: FeeStep;
+  buyUsdt: FeeStep;
+  network: FeeStep;
+  sellUsdt: FeeStep;
+  sellFiat: FeeStep;
+}
+
+const emptyStep = (): FeeStep => ({ pct: Decimal.ZERO, fixed: Decimal.ZERO });
+
+export const NO_FEES: LegFees = {
+  buyFiat: emptyStep(), buyUsdt: emptyStep(), network: emptyStep(), sellUsdt: emptyStep(), sellFiat: emptyStep(),
+};
+
+// Labels are catalog keys; a preset is saved with its label in the language it was added in
+export const FEE_PRESETS: (Omit<FeeRule, 'id' | 'label'> & { labelKey: MessageKey })[] = [
+  { labelKey: 'fees.preset.card', leg: 'buy', currency: '*', kind: 'percent', value: '1', denomination: 'leg', enabled: true },
+  { labelKey: 'fees.preset.taker', leg: 'buy', currency: '*', kind: 'percent', value: '0.1', denomination: 'usdt', enabled: true },
+  { labelKey: 'fees.preset.trc20', leg: 'network', currency: '*', kind: 'fixed', value: '1', denomination: 'usdt', enabled: true },
+  { labelKey: 'fees.preset.maker', leg: 'sell', currency: '*', kind: 'percent', value: '0.1', denomination: 'usdt', enabled: true },
+  { labelKey: 'fees.preset.bank', leg: 'sell', currency: '*', kind: 'fixed', value: '0', denomination: 'leg', enabled: true },
+];
+
+export const createFeeRule = (partial: Partial<FeeRule> = {}): FeeRule => ({
+  id: createId(),
+  label: 'Fee',
+  leg: 'buy',
+  currency: '*',
+  kind: 'percent',
+  value: '0',
+  denomination: 'leg',
+  enabled: true,
+  ...partial,
+});
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const oneOf = <T extends string>(values: T[]) => (v: unknown): v is T => values.includes(v as T);
+
+// A rule needs an id, leg and kind; any other bad field only resets itself
+const sanitizeFeeRule = (raw: unknown): FeeRule | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Partial<Record<keyof FeeRule, unknown>>;
+  if (!isString(r.id) || !oneOf<FeeLeg>(['buy', 'network', 'sell'])(r.leg) || !oneOf<FeeKind>(['percent', 'fixed'])(r.kind)) return null;
+  const pick = <K extends keyof FeeRule>(key: K, valid: (v: unknown) => v is FeeRule[K]): Partial<FeeRule> => valid(r[key]) ? { [key]: r[key] } : {};
+  return createFeeRule({
+    id: r.id,
+    leg: r.leg,
+    kind: r.kind,
+    ...pick('label', isString),
+    ...pick('currency', isString),
+    ...pick('value', isString),
+    ...pick('denomination', oneOf<FeeDenomination>(['leg', 'usdt'])),
+    ...pick('enabled', (v): v is boolean => typeof v === 'boolean'),
+  });
+};
+
+export const sanitizeFeeRules = (raw: unknown): FeeRule[] =>
+  Array.isArray(raw) ? raw.map(sanitizeFeeRule).filter((r): r is FeeRule => r !== null) : [];
+
+const addToStep = (step: FeeStep, rule: FeeRule): FeeStep => {
+  const v = Decimal.from(rule.value.replace(',', '.'));
+  return rule.kind === 'percent' ? { ...step, pct: step.pct.plus(v) } : { ...step, fixed: step.fixed.plus(v) };
+};
+
+// Collapses the enabled rules that apply to this pair into one percent + fixed step per chain point.
+export const resolveLegFees = (rules: FeeRule[], source: string, target: string): LegFees => {
+  const fees: LegFees = { ...NO_FEES };
+  rules.forEach(rule => {
+    if (!rule.enabled) return;
+    if (rule.leg === 'network') { fees.network = addToStep(fees.network, rule); return; }
+    const legCurr = rule.leg === 'buy' ? source : target;
+    if (rule.currency !== '*' && rule.currency !== legCurr) return;
+    if (rule.leg === 'buy') {
+      if (rule.denomination === 'usdt') fees.buyUsdt = addToStep(fees.buyUsdt, rule);
+      else fees.buyFiat = addToStep(fees.buyFiat, rule);
+    } else {
+      if (rule.denomination === 'usdt') fees.sellUsdt = addToStep(fees.sellUsdt, rule);
+      else fees.sellFiat = addToStep(fees.sellFiat, rule);
+    }
+  });
+  return fees;
+};
+
+export const hasFees = (fees: LegFees) =>
+  Object.values(fees).some(step => !step.pct.isZero() || !step.fixed.isZero());
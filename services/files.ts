@@ -0,0 +1,17 @@
+// Browser file helpers shared by export / import features.
+
+export const downloadFile = (content: string | Blob, fileName: string, mime: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const dateStamp = (ts: number = Date.now()) => new Date(ts).toISOString().slice(0, 10);
+
+// A file name part from user text: letters (with their combining marks) and digits in any script, the rest collapsed to dashes
+export const fileSlug = (text: string, fallback: string) =>
+  text.replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').toLowerCase() || fallback;
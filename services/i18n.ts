@@ -0,0 +1,613 @@
+import { NumberFormat } from './calcEngine';
+
+// UI string catalog. English is the reference: every other language must define the same keys.
+// Placeholders are written as {name} and filled by translate().
+
+export type Lang = 'en' | 'ru';
+
+// `englishName` is used when asking the AI estimator to answer in the UI language
+export const LANGUAGES: { code: Lang; label: string; englishName: string }[] = [
+  { code: 'en', label: 'English', englishName: 'English' },
+  { code: 'ru', label: 'Русский', englishName: 'Russian' },
+];
+
+// BCP 47 locale for dates, and the matching number format for amounts
+export const LOCALES: Record<Lang, string> = { en: 'en-US', ru: 'ru-RU' };
+
+export const NUMBER_FORMATS: Record<Lang, NumberFormat> = {
+  en: { group: ',', decimal: '.' },
+  ru: { group: ' ', decimal: ',' },
+};
+
+const en = {
+  'common.done': 'Done',
+  'common.ok': 'OK',
+  'common.save': 'Save',
+  'common.import': 'Import',
+  'common.dismiss': 'Dismiss',
+  'common.edit': 'Edit',
+  'common.loading': 'Loading…',
+
+  'warning.title': 'Spread is above {pct}%, check the selected currency',
+  'warning.currencyCorrect': 'Currency is correct',
+  'warning.rememberSpread': 'Remember spread',
+
+  'rates.asOf': 'Rates as of {time} · {source}',
+  'rates.stale': ' (stale)',
+  'rates.loading': 'Loading CB rates…',
+  'rates.unavailable': 'CB rates unavailable',
+  'rates.refresh': 'Refresh rates',
+  'rates.error.allFailed': 'All rate sources failed',
+  'rates.error.invalidJson': 'The file is not valid JSON',
+  'rates.error.notObject': 'JSON must be an object of currency rates',
+  'rates.error.noRates': 'JSON contains no valid rates',
+
+  'mode.approx': 'Approximate',
+  'mode.exact': 'Exact',
+  'view.convert': 'Convert',
+  'view.arbitrage': 'Arbitrage',
+  'tools.routes': 'Routes',
+  'tools.basket': 'Basket',
+  'tools.solver': 'Solver',
+  'tools.charts': 'Charts',
+  'tools.alerts': 'Alerts',
+
+  'rate.buyUsdt': 'Buy USDT',
+  'rate.sellUsdt': 'Sell USDT',
+  'rate.auto': 'Auto',
+  'rate.cb': 'CB Rate:',
+  'rate.spread': 'Spread:',
+
+  'estimate.label': 'AI estimate:',
+  'estimate.ask': 'Estimate',
+  'estimate.retry': 'Retry',
+  'estimate.error.noKey': 'Gemini API key is not configured',
+  'estimate.error.empty': 'The model sent an empty reply',
+  'estimate.error.invalidJson': 'The model reply is not valid JSON',
+  'estimate.error.noPrices': 'The model returned no usable prices',
+  'estimate.error.farFromCb': 'The estimate for {currency} is too far from the CB rate',
+  'estimate.apply': 'Apply this rate',
+  'estimate.refresh': 'Ask again',
+
+  'amount.give': 'Give',
+  'amount.receive': 'Receive',
+  'amount.equivalent': 'Equivalent',
+
+  'deal.save': 'Save deal',
+  'deal.saved': 'Saved',
+  'deal.journal': 'Journal',
+  'deal.notePlaceholder': 'Note (counterparty, platform…)',
+  'deal.saveError': 'The deal was not saved: {error}',
+
+  'quote.share': 'Share quote',
+  'quote.title': 'Share quote',
+  'quote.cardTitle': '{source} → {target} quote',
+  'quote.give': 'You give',
+  'quote.receive': 'You receive',
+  'quote.buyRate': 'Buy rate, 1 USDT',
+  'quote.sellRate': 'Sell rate, 1 USDT',
+  'quote.crossRate': 'Rate, 1 {currency}',
+  'quote.fees': 'Fees',
+  'quote.validUntil': 'Valid until',
+  'quote.error.noCanvas': 'This browser cannot draw images',
+  'quote.error.render': 'Could not render the quote image',
+  'quote.validFor': 'Valid for',
+  'quote.minutes': '{n} min',
+  'quote.hours': '{n} h',
+  'quote.showFees': 'Show fees on the quote',
+  'quote.shareText': 'Text',
+  'quote.shareImage': 'Image',
+  'quote.shareLink': 'Link',
+  'quote.sent': 'Done',
+  'quote.empty': 'Enter rates and an amount to build a quote.',
+  'quote.opened': 'Quote opened from a link',
+  'quote.openedValid': 'Quote from a link, valid until {time}',
+  'quote.openedExpired': 'This quote expired at {time}',
+
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.languageHint': 'Interface language and number format',
+  'settings.proMode': 'Pro Mode',
+  'settings.proModeHint': 'Show advanced controls and metrics',
+  'settings.proModeAbout': 'In Pro mode, P2P Exchanger can calculate an approximate exchange rate. The calculator takes into account the difference between the entered price and the Central Bank exchange rate. When the Central Bank exchange rate changes, the buy and sell prices are updated automatically.',
+  'settings.manualRates': 'Manual Rates',
+  'settings.manualRatesLoaded': '{count} currencies loaded',
+  'settings.manualRatesHint': 'Used when online sources fail',
+  'settings.lastRefreshFailed': 'Last refresh failed: {error}',
+  'settings.fees': 'Fees & Commissions',
+  'settings.feesHint': '{count} active · applied to every leg of the deal',
+  'settings.tiers': 'Volume tiers',
+  'settings.tiersHint': '{count} active · rates by order size',
+  'settings.backup': 'Backup',
+  'settings.backupHint': 'Settings, spread profiles, fees and alerts in one file. The deal journal has its own export.',
+  'settings.backupSave': 'Save to file',
+  'settings.backupRestore': 'Restore',
+  'settings.error.notBackup': 'Not a settings backup file',
+  'settings.error.newerVersion': 'These settings were saved by a newer version of the app (version {version})',
+  'settings.error.corrupted': 'Saved settings were unreadable and have been reset; a copy was kept',
+  'settings.error.migration': 'Saved settings could not be updated and have been reset; a copy was kept',
+  'settings.reset': 'Reset settings',
+  'settings.resetConfirm': 'Tap again to reset everything',
+
+  'profiles.title': 'Spread Profiles',
+  'profiles.importPrompt': 'Import spread profile',
+  'profiles.importCount': '({count} currencies)?',
+  'profiles.copyName': '{name} copy',
+  'profiles.error.notProfile': 'Not a spread profile file',
+  'profiles.locked': 'Locked: typed rates do not change spreads',
+  'profiles.unlocked': 'Unlocked: typed rates update spreads',
+  'profiles.currency': 'Currency',
+  'profiles.buySpread': 'Buy spread %',
+  'profiles.sellSpread': 'Sell spread %',
+  'profiles.link': 'Link',
+  'profiles.copied': 'Copied',
+  'profiles.defaultName': 'Default',
+
+  'fees.breakdown': 'Fees breakdown',
+  'fees.giveGross': 'Give (gross)',
+  'fees.buyLeg': 'Buy leg fees',
+  'fees.usdtBought': 'USDT bought',
+  'fees.exchange': 'Exchange fees',
+  'fees.network': 'Network fees',
+  'fees.sellLeg': 'Sell leg fees',
+  'fees.usdtSold': 'USDT sold',
+  'fees.receiveGross': 'Receive (gross)',
+  'fees.payout': 'Payout fees',
+  'fees.receiveNet': 'Receive (net)',
+  'fees.total': 'Total fees',
+  'fees.allInRate': 'All-in rate, 1 {currency}',
+  'fees.withoutFees': 'Without fees',
+  'fees.empty': 'No fees configured. The calculation assumes free transfers.',
+  'fees.legBuy': 'Buy leg (Give)',
+  'fees.legNetwork': 'Network (USDT)',
+  'fees.legSell': 'Sell leg (Receive)',
+  'fees.anyCurrency': 'Any currency',
+  'fees.fixed': 'fixed',
+  'fees.inLegCurrency': 'In leg currency',
+  'fees.inUsdt': 'In USDT',
+  'fees.add': 'Add fee',
+  'fees.preset.card': 'Card commission',
+  'fees.preset.taker': 'P2P taker fee',
+  'fees.preset.trc20': 'TRC20 withdrawal',
+  'fees.preset.maker': 'P2P maker fee',
+  'fees.preset.bank': 'Bank transfer',
+  'tiers.empty': 'No tiers yet. Add advertiser offers with their limits to pick the rate by amount.',
+  'tiers.advertiser': 'Advertiser',
+  'tiers.sideBuy': 'Paying with (Give)',
+  'tiers.sideSell': 'Receiving',
+  'tiers.min': 'Min',
+  'tiers.max': 'Max (no limit)',
+  'tiers.pricingSpread': '% over CB',
+  'tiers.pricingRate': 'rate',
+  'tiers.add': 'Add tier',
+  'tiers.applied': '{name} · {range}',
+  'tiers.outside': '{currency}: no tier fits this amount (limits {limits}), the typed rate is used',
+
+  'arb.startVolume': 'Start volume',
+  'arb.returnRate': 'Return rate, 1 {target} in {source}',
+  'arb.cb': 'CB',
+  'arb.useCbCross': 'Use CB cross rate',
+  'arb.buyFor': 'Buy USDT for {currency}',
+  'arb.sellFor': 'Sell USDT for {currency}',
+  'arb.noCb': 'no CB rate',
+
+  'basket.title': 'From {currency} to all',
+  'basket.hint': 'Receive at saved sell spreads · tap a row to open it',
+  'basket.sortCurrency': 'Currency',
+  'basket.sortValue': 'Amount',
+  'basket.sortSpread': 'Spread',
+  'basket.empty': 'No other currencies yet. Enter rates for a pair to add it here.',
+  'tabs.new': 'New tab (copy of this one)',
+  'tabs.close': 'Close tab',
+  'tabs.pin': 'Pin this pair to the dashboard',
+  'tabs.unpin': 'Unpin this pair',
+  'dashboard.title': 'Pinned pairs',
+  'dashboard.buy': 'Buy USDT',
+  'dashboard.sell': 'Sell USDT',
+  'dashboard.cross': 'vs CB',
+  'solver.title': 'Target solver',
+  'solver.hint': 'Lock any two values and the rest is solved, fees included. The value marked "calculator" is taken from the calculator.',
+  'solver.margin': 'Margin over CB',
+  'solver.lock': 'Lock this value',
+  'solver.locked': 'Locked',
+  'solver.kept': 'calculator',
+  'solver.solved': 'solved',
+  'solver.apply': 'Apply to calculator',
+  'solver.noSolution': 'No solution for these values',
+  'solver.needsCb': 'The margin needs CB rates for both currencies',
+  'arb.profit': 'Profit',
+  'arb.loss': 'Loss',
+  'arb.return': 'Return',
+  'arb.path': 'Path',
+  'arb.breakEven': 'Break-even sell rate',
+  'arb.minVolume': 'Min volume to cover fees',
+  'arb.notProfitable': 'not profitable',
+  'arb.empty': 'Enter buy, sell and return rates to see the round-trip result.',
+
+  'routes.title': 'Routes {source} → {target}',
+  'routes.empty': 'No routes: check CB rates and the asset prices below.',
+  'routes.use': 'Use',
+  'routes.hopBuy': 'Buy {amount} {asset} at {price} {currency}',
+  'routes.hopSell': 'sell at {price} {currency}',
+  'routes.assets': 'Intermediate assets',
+  'routes.usdPrice': 'USD price',
+  'routes.buyPct': 'Buy %',
+  'routes.sellPct': 'Sell %',
+  'routes.netFee': 'Net fee',
+  'routes.via': 'Via currencies',
+
+  'journal.title': 'Deal Journal',
+  'journal.allPairs': 'All pairs',
+  'journal.deals': 'Deals',
+  'journal.volume': 'Volume',
+  'journal.error.invalidJson': 'The file is not valid JSON',
+  'journal.error.noDeals': 'The JSON file has no deals',
+  'journal.error.csvHeader': 'The CSV header must include sourceCurr and targetCurr',
+  'journal.given': 'Given {currency}',
+  'journal.received': 'Received {currency}',
+  'journal.avgSpread': 'Avg realized spread',
+  'journal.empty': 'No deals saved yet.',
+  'journal.rates': 'Buy {buy} ({buySpread}) · Sell {sell} ({sellSpread}) · Realized {realized}',
+
+  'charts.title': 'Rate History',
+  'charts.day': 'Day',
+  'charts.week': 'Week',
+  'charts.month': 'Month',
+  'charts.perUsdt': '{currency} per USDT',
+  'charts.cbRate': 'CB rate',
+  'charts.p2pBuy': 'P2P buy',
+  'charts.p2pSell': 'P2P sell',
+  'charts.spreadVsCb': 'Spread vs CB',
+  'charts.lastSpreads': 'buy {buy} · sell {sell}',
+  'charts.buySpread': 'Buy spread',
+  'charts.sellSpread': 'Sell spread',
+  'charts.noData': 'No data for this period yet',
+  'charts.writeError': 'Rates are not being recorded: {error}',
+
+  'alerts.title': 'Rate Alerts',
+  'alerts.notificationTitle': 'P2P Exchanger alert',
+  'alerts.spreadWarning': 'Spread warning above, %',
+  'alerts.warningDelay': 'Warning delay, seconds',
+  'alerts.notifications': 'Browser notifications',
+  'alerts.on': 'On',
+  'alerts.off': 'Off',
+  'alerts.empty': 'No alerts yet.',
+  'alerts.snooze': 'Snooze',
+  'alerts.snoozeHour': 'Snooze 1 hour',
+  'alerts.now': 'Now {value}',
+  'alerts.base': ' · base {value}',
+  'alerts.triggered': ' · triggered',
+  'alerts.snoozedUntil': ' · snoozed until {time}',
+  'alerts.kind.spread': 'Spread exceeds %',
+  'alerts.kind.cbMove': 'CB rate moves %',
+  'alerts.kind.rateCross': 'Approx rate crosses',
+  'alerts.targetPlaceholder': 'THB or RUB/THB',
+  'alerts.targetRate': 'Target rate',
+  'alerts.thresholdPct': 'Threshold %',
+  'alerts.buySide': 'Buy side',
+  'alerts.sellSide': 'Sell side',
+  'alerts.above': 'Goes above',
+  'alerts.below': 'Goes below',
+  'alerts.add': 'Add alert',
+  'alerts.side.buy': 'buy',
+  'alerts.side.sell': 'sell',
+  'alerts.describe.cbMove': '{target} CB rate moves ±{threshold}%',
+  'alerts.describe.rateCross': '{target}{side} rate {op} {threshold}',
+  'alerts.describe.spread': '{target}{side} spread beyond ±{threshold}%',
+  'alerts.message.cbMove': '{target} CB rate {value} ({change}% since acknowledged)',
+  'alerts.message.rateCross': '{target} approx rate is {value} (target {threshold})',
+  'alerts.message.spread': '{target} spread is {value}',
+};
+
+export type MessageKey = keyof typeof en;
+
+const ru: Record<MessageKey, string> = {
+  'common.done': 'Готово',
+  'common.ok': 'OK',
+  'common.save': 'Сохранить',
+  'common.import': 'Импорт',
+  'common.dismiss': 'Отклонить',
+  'common.edit': 'Изменить',
+  'common.loading': 'Загрузка…',
+
+  'warning.title': 'Spread больше {pct}% проверьте выбранную валюту',
+  'warning.currencyCorrect': 'Валюта верная',
+  'warning.rememberSpread': 'Запомнить Spread',
+
+  'rates.asOf': 'Курсы на {time} · {source}',
+  'rates.stale': ' (устарели)',
+  'rates.loading': 'Загрузка курсов ЦБ…',
+  'rates.unavailable': 'Курсы ЦБ недоступны',
+  'rates.refresh': 'Обновить курсы',
+  'rates.error.allFailed': 'Все источники курсов недоступны',
+  'rates.error.invalidJson': 'Файл не является корректным JSON',
+  'rates.error.notObject': 'JSON должен быть объектом с курсами валют',
+  'rates.error.noRates': 'В JSON нет корректных курсов',
+
+  'mode.approx': 'Примерный',
+  'mode.exact': 'Точный',
+  'view.convert': 'Обмен',
+  'view.arbitrage': 'Арбитраж',
+  'tools.routes': 'Маршруты',
+  'tools.basket': 'Корзина',
+  'tools.solver': 'Подбор',
+  'tools.charts': 'Графики',
+  'tools.alerts': 'Оповещения',
+
+  'rate.buyUsdt': 'Покупка USDT',
+  'rate.sellUsdt': 'Продажа USDT',
+  'rate.auto': 'Авто',
+  'rate.cb': 'Курс ЦБ:',
+  'rate.spread': 'Спред:',
+
+  'estimate.label': 'Оценка ИИ:',
+  'estimate.ask': 'Оценить',
+  'estimate.retry': 'Повторить',
+  'estimate.error.noKey': 'Ключ Gemini API не настроен',
+  'estimate.error.empty': 'Модель прислала пустой ответ',
+  'estimate.error.invalidJson': 'Ответ модели не является корректным JSON',
+  'estimate.error.noPrices': 'Модель не вернула пригодных цен',
+  'estimate.error.farFromCb': 'Оценка для {currency} слишком далека от курса ЦБ',
+  'estimate.apply': 'Применить этот курс',
+  'estimate.refresh': 'Запросить снова',
+
+  'amount.give': 'Отдаю',
+  'amount.receive': 'Получаю',
+  'amount.equivalent': 'Эквивалент',
+
+  'deal.save': 'Сохранить сделку',
+  'deal.saved': 'Сохранено',
+  'deal.journal': 'Журнал',
+  'deal.notePlaceholder': 'Заметка (контрагент, площадка…)',
+  'deal.saveError': 'Сделка не сохранена: {error}',
+
+  'quote.share': 'Поделиться котировкой',
+  'quote.title': 'Котировка',
+  'quote.cardTitle': 'Котировка {source} → {target}',
+  'quote.give': 'Вы отдаёте',
+  'quote.receive': 'Вы получаете',
+  'quote.buyRate': 'Курс покупки, 1 USDT',
+  'quote.sellRate': 'Курс продажи, 1 USDT',
+  'quote.crossRate': 'Курс, 1 {currency}',
+  'quote.fees': 'Комиссии',
+  'quote.validUntil': 'Действует до',
+  'quote.error.noCanvas': 'Этот браузер не умеет рисовать изображения',
+  'quote.error.render': 'Не удалось создать изображение котировки',
+  'quote.validFor': 'Срок действия',
+  'quote.minutes': '{n} мин',
+  'quote.hours': '{n} ч',
+  'quote.showFees': 'Показать комиссии в котировке',
+  'quote.shareText': 'Текст',
+  'quote.shareImage': 'Картинка',
+  'quote.shareLink': 'Ссылка',
+  'quote.sent': 'Готово',
+  'quote.empty': 'Введите курсы и сумму, чтобы составить котировку.',
+  'quote.opened': 'Котировка открыта по ссылке',
+  'quote.openedValid': 'Котировка по ссылке, действует до {time}',
+  'quote.openedExpired': 'Срок этой котировки истёк {time}',
+
+  'settings.title': 'Настройки',
+  'settings.language': 'Язык',
+  'settings.languageHint': 'Язык интерфейса и формат чисел',
+  'settings.proMode': 'Режим Pro',
+  'settings.proModeHint': 'Расширенные настройки и показатели',
+  'settings.proModeAbout': 'В режиме Pro P2P Exchanger может рассчитать примерный курс обмена. Калькулятор учитывает разницу между введённой ценой и курсом Центрального банка. При изменении курса ЦБ цены покупки и продажи обновляются автоматически.',
+  'settings.manualRates': 'Ручные курсы',
+  'settings.manualRatesLoaded': 'Загружено валют: {count}',
+  'settings.manualRatesHint': 'Используются, если онлайн-источники недоступны',
+  'settings.lastRefreshFailed': 'Последнее обновление не удалось: {error}',
+  'settings.fees': 'Комиссии',
+  'settings.feesHint': 'Активных: {count} · применяются к каждому этапу сделки',
+  'settings.tiers': 'Объёмные уровни',
+  'settings.tiersHint': 'Активных: {count} · курс зависит от суммы сделки',
+  'settings.backup': 'Резервная копия',
+  'settings.backupHint': 'Настройки, профили спредов, комиссии и оповещения в одном файле. У журнала сделок свой экспорт.',
+  'settings.backupSave': 'Сохранить в файл',
+  'settings.backupRestore': 'Восстановить',
+  'settings.error.notBackup': 'Это не файл резервной копии настроек',
+  'settings.error.newerVersion': 'Настройки сохранены более новой версией приложения (версия {version})',
+  'settings.error.corrupted': 'Сохранённые настройки не читались и были сброшены; копия сохранена',
+  'settings.error.migration': 'Сохранённые настройки не удалось обновить, они сброшены; копия сохранена',
+  'settings.reset': 'Сбросить настройки',
+  'settings.resetConfirm': 'Нажмите ещё раз, чтобы сбросить всё',
+
+  'profiles.title': 'Профили спредов',
+  'profiles.importPrompt': 'Импортировать профиль спредов',
+  'profiles.importCount': '(валют: {count})?',
+  'profiles.copyName': '{name} копия',
+  'profiles.error.notProfile': 'Это не файл профиля спредов',
+  'profiles.locked': 'Заблокирован: введённые курсы не меняют спреды',
+  'profiles.unlocked': 'Разблокирован: введённые курсы обновляют спреды',
+  'profiles.currency': 'Валюта',
+  'profiles.buySpread': 'Спред покупки %',
+  'profiles.sellSpread': 'Спред продажи %',
+  'profiles.link': 'Ссылка',
+  'profiles.copied': 'Скопировано',
+  'profiles.defaultName': 'Основной',
+
+  'fees.breakdown': 'Расшифровка комиссий',
+  'fees.giveGross': 'Отдаю (брутто)',
+  'fees.buyLeg': 'Комиссии при покупке',
+  'fees.usdtBought': 'Куплено USDT',
+  'fees.exchange': 'Комиссии биржи',
+  'fees.network': 'Комиссии сети',
+  'fees.sellLeg': 'Комиссии при продаже',
+  'fees.usdtSold': 'Продано USDT',
+  'fees.receiveGross': 'Получаю (брутто)',
+  'fees.payout': 'Комиссии за выплату',
+  'fees.receiveNet': 'Получаю (нетто)',
+  'fees.total': 'Всего комиссий',
+  'fees.allInRate': 'Итоговый курс, 1 {currency}',
+  'fees.withoutFees': 'Без комиссий',
+  'fees.empty': 'Комиссии не заданы. Расчёт предполагает бесплатные переводы.',
+  'fees.legBuy': 'Покупка (Отдаю)',
+  'fees.legNetwork': 'Сеть (USDT)',
+  'fees.legSell': 'Продажа (Получаю)',
+  'fees.anyCurrency': 'Любая валюта',
+  'fees.fixed': 'фикс.',
+  'fees.inLegCurrency': 'В валюте этапа',
+  'fees.inUsdt': 'В USDT',
+  'fees.add': 'Добавить комиссию',
+  'fees.preset.card': 'Комиссия за карту',
+  'fees.preset.taker': 'Комиссия тейкера P2P',
+  'fees.preset.trc20': 'Вывод TRC20',
+  'fees.preset.maker': 'Комиссия мейкера P2P',
+  'fees.preset.bank': 'Банковский перевод',
+  'tiers.empty': 'Уровней пока нет. Добавьте объявления с лимитами, чтобы курс выбирался по сумме.',
+  'tiers.advertiser': 'Продавец',
+  'tiers.sideBuy': 'Оплата (Отдаю)',
+  'tiers.sideSell': 'Получение',
+  'tiers.min': 'Мин.',
+  'tiers.max': 'Макс. (без лимита)',
+  'tiers.pricingSpread': '% к ЦБ',
+  'tiers.pricingRate': 'курс',
+  'tiers.add': 'Добавить уровень',
+  'tiers.applied': '{name} · {range}',
+  'tiers.outside': '{currency}: сумма вне лимитов ({limits}), используется введённый курс',
+
+  'arb.startVolume': 'Начальный объём',
+  'arb.returnRate': 'Обратный курс, 1 {target} в {source}',
+  'arb.cb': 'ЦБ',
+  'arb.useCbCross': 'Использовать кросс-курс ЦБ',
+  'arb.buyFor': 'Покупка USDT за {currency}',
+  'arb.sellFor': 'Продажа USDT за {currency}',
+  'arb.noCb': 'нет курса ЦБ',
+
+  'basket.title': 'Из {currency} во все',
+  'basket.hint': 'Получение по сохранённым спредам продажи · нажмите строку, чтобы открыть',
+  'basket.sortCurrency': 'Валюта',
+  'basket.sortValue': 'Сумма',
+  'basket.sortSpread': 'Спред',
+  'basket.empty': 'Других валют пока нет. Введите курсы для пары, чтобы добавить её сюда.',
+  'tabs.new': 'Новая вкладка (копия текущей)',
+  'tabs.close': 'Закрыть вкладку',
+  'tabs.pin': 'Закрепить пару на панели',
+  'tabs.unpin': 'Открепить пару',
+  'dashboard.title': 'Закреплённые пары',
+  'dashboard.buy': 'Покупка USDT',
+  'dashboard.sell': 'Продажа USDT',
+  'dashboard.cross': 'к ЦБ',
+  'solver.title': 'Подбор курса',
+  'solver.hint': 'Зафиксируйте любые два значения, остальные будут рассчитаны с учётом комиссий. Значение с пометкой «калькулятор» берётся из калькулятора.',
+  'solver.margin': 'Маржа к ЦБ',
+  'solver.lock': 'Зафиксировать значение',
+  'solver.locked': 'Зафиксировано',
+  'solver.kept': 'калькулятор',
+  'solver.solved': 'расчёт',
+  'solver.apply': 'Применить в калькуляторе',
+  'solver.noSolution': 'Для этих значений решения нет',
+  'solver.needsCb': 'Для маржи нужны курсы ЦБ обеих валют',
+  'arb.profit': 'Прибыль',
+  'arb.loss': 'Убыток',
+  'arb.return': 'Доходность',
+  'arb.path': 'Путь',
+  'arb.breakEven': 'Курс продажи без убытка',
+  'arb.minVolume': 'Мин. объём для покрытия комиссий',
+  'arb.notProfitable': 'неприбыльно',
+  'arb.empty': 'Введите курсы покупки, продажи и обратный курс, чтобы увидеть результат круга.',
+
+  'routes.title': 'Маршруты {source} → {target}',
+  'routes.empty': 'Маршрутов нет: проверьте курсы ЦБ и цены активов ниже.',
+  'routes.use': 'Выбрать',
+  'routes.hopBuy': 'Покупка {amount} {asset} по {price} {currency}',
+  'routes.hopSell': 'продажа по {price} {currency}',
+  'routes.assets': 'Промежуточные активы',
+  'routes.usdPrice': 'Цена в USD',
+  'routes.buyPct': 'Покупка %',
+  'routes.sellPct': 'Продажа %',
+  'routes.netFee': 'Комиссия сети',
+  'routes.via': 'Через валюты',
+
+  'journal.title': 'Журнал сделок',
+  'journal.allPairs': 'Все пары',
+  'journal.deals': 'Сделки',
+  'journal.volume': 'Объём',
+  'journal.error.invalidJson': 'Файл не является корректным JSON',
+  'journal.error.noDeals': 'В JSON-файле нет сделок',
+  'journal.error.csvHeader': 'Заголовок CSV должен содержать sourceCurr и targetCurr',
+  'journal.given': 'Отдано {currency}',
+  'journal.received': 'Получено {currency}',
+  'journal.avgSpread': 'Средний реализованный спред',
+  'journal.empty': 'Сохранённых сделок пока нет.',
+  'journal.rates': 'Покупка {buy} ({buySpread}) · Продажа {sell} ({sellSpread}) · Итог {realized}',
+
+  'charts.title': 'История курсов',
+  'charts.day': 'День',
+  'charts.week': 'Неделя',
+  'charts.month': 'Месяц',
+  'charts.perUsdt': '{currency} за USDT',
+  'charts.cbRate': 'Курс ЦБ',
+  'charts.p2pBuy': 'P2P покупка',
+  'charts.p2pSell': 'P2P продажа',
+  'charts.spreadVsCb': 'Спред к ЦБ',
+  'charts.lastSpreads': 'покупка {buy} · продажа {sell}',
+  'charts.buySpread': 'Спред покупки',
+  'charts.sellSpread': 'Спред продажи',
+  'charts.noData': 'За этот период данных пока нет',
+  'charts.writeError': 'Курсы не записываются: {error}',
+
+  'alerts.title': 'Оповещения о курсах',
+  'alerts.notificationTitle': 'Оповещение P2P Exchanger',
+  'alerts.spreadWarning': 'Предупреждать о спреде выше, %',
+  'alerts.warningDelay': 'Задержка предупреждения, сек',
+  'alerts.notifications': 'Уведомления браузера',
+  'alerts.on': 'Вкл',
+  'alerts.off': 'Выкл',
+  'alerts.empty': 'Оповещений пока нет.',
+  'alerts.snooze': 'Отложить',
+  'alerts.snoozeHour': 'Отложить на 1 час',
+  'alerts.now': 'Сейчас {value}',
+  'alerts.base': ' · база {value}',
+  'alerts.triggered': ' · сработало',
+  'alerts.snoozedUntil': ' · отложено до {time}',
+  'alerts.kind.spread': 'Спред превышает %',
+  'alerts.kind.cbMove': 'Курс ЦБ изменился на %',
+  'alerts.kind.rateCross': 'Примерный курс пересекает',
+  'alerts.targetPlaceholder': 'THB или RUB/THB',
+  'alerts.targetRate': 'Целевой курс',
+  'alerts.thresholdPct': 'Порог %',
+  'alerts.buySide': 'Покупка',
+  'alerts.sellSide': 'Продажа',
+  'alerts.above': 'Выше',
+  'alerts.below': 'Ниже',
+  'alerts.add': 'Добавить оповещение',
+  'alerts.side.buy': 'покупка',
+  'alerts.side.sell': 'продажа',
+  'alerts.describe.cbMove': 'Курс ЦБ {target} изменится на ±{threshold}%',
+  'alerts.describe.rateCross': 'Курс {target}{side} {op} {threshold}',
+  'alerts.describe.spread': 'Спред {target}{side} за пределами ±{threshold}%',
+  'alerts.message.cbMove': 'Курс ЦБ {target} {value} ({change}% с момента подтверждения)',
+  'alerts.message.rateCross': 'Примерный курс {target}: {value} (цель {threshold})',
+  'alerts.message.spread': 'Спред {target}: {value}',
+};
+
+const CATALOGS: Record<Lang, Record<MessageKey, string>> = { en, ru };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const translate = (lang: Lang, key: MessageKey, params?: Record<string, string | number>) => {
+  const template = CATALOGS[lang][key] ?? en[key] ?? key;
+  return params ? template.replace(/\{(\w+)\}/g, (m, name) => (name in params ? String(params[name]) : m)) : template;
+};
+
+// An error shown to the user: `key` selects the catalog message, the English message is kept for logs
+export class LocalizedError extends Error {
+  constructor(message: string, public readonly key: MessageKey, public readonly params?: Record<string, string | number>) {
+    super(message);
+    this.name = 'LocalizedError';
+  }
+}
+
+// The text to show for a caught error: translated when it carries a catalog key, as is otherwise.
+// Module errors (RateProviderError, RateEstimateError, SettingsError) carry the same optional fields.
+export const errorMessage = (error: unknown, t: Translate) => {
+  if (!(error instanceof Error)) return String(error);
+  const { key, params } = error as Error & { key?: MessageKey; params?: Record<string, string | number> };
+  return key ? t(key, params) : error.message;
+};
+
+export const isLang = (val: unknown): val is Lang => LANGUAGES.some(l => l.code === val);
+
+// Used until the user picks a language: the browser language, English otherwise.
+export const detectLang = (): Lang =>
+  typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('ru') ? 'ru' : 'en';
@@ -0,0 +1,4 @@
+// Short random ids for settings entries (fee rules, profiles, alerts, tiers, tabs). They only need to be
+// unique within one list; journal deals use time-ordered ids instead.
+
+export const createId = () => Math.random().toString(36).slice(2, 10);
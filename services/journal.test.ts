@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Deal, dealsToCsv, parseDealsFile } from './journal';
+
+const deal = (patch: Partial<Deal> = {}): Deal => ({
+  id: 'd1', createdAt: Date.UTC(2026, 0, 1), sourceCurr: 'RUB', targetCurr: 'THB', buyRate: '95', sellRate: '35',
+  cbBuy: 90, cbSell: 36, spreadBuy: 5.5, spreadSell: -2.5, amountBuy: '95000', amountSale: '35000', amountUsdt: '1000', note: '',
+  ...patch,
+});
+
+const noteCell = (csv: string) => csv.split('\n')[1].split(',').slice(13).join(',');
+
+describe('dealsToCsv', () => {
+  it('keeps text cells from running as spreadsheet formulas', () => {
+    expect(noteCell(dealsToCsv([deal({ note: '=HYPERLINK("http://x")' })]))).toBe(`"'=HYPERLINK(""http://x"")"`);
+    for (const note of ['+1', '-1', '@SUM(A1)', '\tcmd']) {
+      expect(noteCell(dealsToCsv([deal({ note })]))).toBe(`'${note}`);
+    }
+    expect(noteCell(dealsToCsv([deal({ note: '\rcmd' })]))).toBe(`"'\rcmd"`);
+  });
+
+  it('leaves numbers and plain text alone', () => {
+    const [, row] = dealsToCsv([deal({ note: 'cash, 2 parts' })]).split('\n');
+    expect(row).toContain(',5.5,-2.5,');
+    expect(row.endsWith(',"cash, 2 parts"')).toBe(true);
+  });
+});
+
+describe('parseDealsFile', () => {
+  it('round-trips deals through CSV', () => {
+    const deals = [deal({ note: '=1+1' }), deal({ id: 'd2', note: "'=quoted" }), deal({ id: 'd3', note: "it's fine", cbBuy: null })];
+    expect(parseDealsFile(dealsToCsv(deals), 'deals.csv')).toEqual(deals);
+  });
+
+  it('round-trips deals through JSON', () => {
+    const deals = [deal()];
+    expect(parseDealsFile(JSON.stringify({ version: 1, deals }), 'deals.json')).toEqual(deals);
+  });
+
+  it('skips rows without a currency pair', () => {
+    const csv = 'id,sourceCurr,targetCurr\na,RUB,THB\nb,,THB';
+    expect(parseDealsFile(csv, 'deals.csv').map(d => d.id)).toEqual(['a']);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseDealsFile('{"deals":', 'deals.json')).toThrow('not valid JSON');
+    expect(() => parseDealsFile('{}', 'deals.json')).toThrow('no deals');
+    expect(() => parseDealsFile('id,amount\n1,2', 'deals.csv')).toThrow('CSV header');
+  });
+});
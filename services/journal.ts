@@ -0,0 +1,183 @@
+import { Decimal } from './decimal';
+import { parseDecimal, calculateSpread } from './calcEngine';
+import { runTx } from './db';
+import { LocalizedError } from './i18n';
+
+// Deal journal persisted in IndexedDB, with CSV / JSON import and export.
+
+export interface Deal {
+  id: string;
+  createdAt: number;
+  sourceCurr: string;
+  targetCurr: string;
+  buyRate: string;
+  sellRate: string;
+  cbBuy: number | null;
+  cbSell: number | null;
+  spreadBuy: number | null;
+  spreadSell: number | null;
+  amountBuy: string;
+  amountSale: string;
+  amountUsdt: string;
+  note: string;
+}
+
+export interface DealFilter {
+  pair?: string; // "RUB/THB", empty for all
+  from?: number;
+  to?: number;
+}
+
+export interface JournalSummary {
+  count: number;
+  totalUsdt: Decimal;
+  given: Record<string, Decimal>;
+  received: Record<string, Decimal>;
+  avgRealizedSpread: number | null;
+}
+
+export const createDealId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const addDeal = (deal: Deal) => runTx('deals', 'readwrite', store => store.put(deal));
+
+export const putDeals = (deals: Deal[]) => runTx('deals', 'readwrite', store => { deals.forEach(d => store.put(d)); });
+
+export const deleteDeal = (id: string) => runTx('deals', 'readwrite', store => store.delete(id));
+
+export const listDeals = async (): Promise<Deal[]> => {
+  const deals = await runTx<Deal[]>('deals', 'readonly', store => store.getAll() as IDBRequest<Deal[]>);
+  return (deals || []).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// --- ANALYTICS ---
+export const dealPair = (deal: Pick<Deal, 'sourceCurr' | 'targetCurr'>) => `${deal.sourceCurr}/${deal.targetCurr}`;
+
+// Markup of the deal's own cross rate (Give per Receive) over the CB cross rate.
+export const realizedSpread = (deal: Deal): number | null => {
+  const give = parseDecimal(deal.amountBuy);
+  const receive = parseDecimal(deal.amountSale);
+  if (!deal.cbBuy || !deal.cbSell || !give.isPositive() || !receive.isPositive()) return null;
+  return calculateSpread(give.div(receive).toNumber(), deal.cbBuy / deal.cbSell);
+};
+
+export const filterDeals = (deals: Deal[], filter: DealFilter) => deals.filter(d =>
+  (!filter.pair || dealPair(d) === filter.pair) &&
+  (!filter.from || d.createdAt >= filter.from) &&
+  (!filter.to || d.createdAt <= filter.to)
+);
+
+export const summarizeDeals = (deals: Deal[]): JournalSummary => {
+  const given: Record<string, Decimal> = {};
+  const received: Record<string, Decimal> = {};
+  let totalUsdt = Decimal.ZERO;
+  const spreads: number[] = [];
+  deals.forEach(d => {
+    given[d.sourceCurr] = (given[d.sourceCurr] || Decimal.ZERO).plus(parseDecimal(d.amountBuy));
+    received[d.targetCurr] = (received[d.targetCurr] || Decimal.ZERO).plus(parseDecimal(d.amountSale));
+    totalUsdt = totalUsdt.plus(parseDecimal(d.amountUsdt));
+    const s = realizedSpread(d);
+    if (s !== null) spreads.push(s);
+  });
+  return {
+    count: deals.length,
+    totalUsdt,
+    given,
+    received,
+    avgRealizedSpread: spreads.length ? spreads.reduce((a, b) => a + b, 0) / spreads.length : null,
+  };
+};
+
+// --- EXPORT / IMPORT ---
+const CSV_COLUMNS: (keyof Deal)[] = [
+  'id', 'createdAt', 'sourceCurr', 'targetCurr', 'buyRate', 'sellRate', 'cbBuy', 'cbSell',
+  'spreadBuy', 'spreadSell', 'amountBuy', 'amountSale', 'amountUsdt', 'note',
+];
+
+// Spreadsheets run a text cell starting with one of these as a formula; a leading ' keeps it text.
+// Cells that already start with quotes get one more, so the import can always strip exactly one.
+const FORMULA_RE = /^'*[=+\-@\t\r]/;
+
+const csvCell = (val: unknown) => {
+  const raw = val === null || val === undefined ? '' : String(val);
+  const str = typeof val !== 'number' && FORMULA_RE.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+const fromCsvCell = (cell: string) => cell.startsWith("'") && FORMULA_RE.test(cell) ? cell.slice(1) : cell;
+
+export const dealsToCsv = (deals: Deal[]) => {
+  const rows = deals.map(d => CSV_COLUMNS.map(c => c === 'createdAt' ? new Date(d.createdAt).toISOString() : csvCell(d[c])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const dealsToJson = (deals: Deal[]) => JSON.stringify({ version: 1, deals }, null, 2);
+
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else cell += ch;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const numOrNull = (val: unknown) => {
+  if (val === null || val === undefined || val === '') return null;
+  const n = Number(val);
+  return isFinite(n) ? n : null;
+};
+
+const toDeal = (raw: Record<string, unknown>): Deal | null => {
+  if (!raw.sourceCurr || !raw.targetCurr) return null;
+  const created = typeof raw.createdAt === 'number' ? raw.createdAt : Date.parse(String(raw.createdAt));
+  return {
+    id: raw.id ? String(raw.id) : createDealId(),
+    createdAt: isFinite(created) ? created : Date.now(),
+    sourceCurr: String(raw.sourceCurr).toUpperCase(),
+    targetCurr: String(raw.targetCurr).toUpperCase(),
+    buyRate: String(raw.buyRate ?? ''),
+    sellRate: String(raw.sellRate ?? ''),
+    cbBuy: numOrNull(raw.cbBuy),
+    cbSell: numOrNull(raw.cbSell),
+    spreadBuy: numOrNull(raw.spreadBuy),
+    spreadSell: numOrNull(raw.spreadSell),
+    amountBuy: String(raw.amountBuy ?? ''),
+    amountSale: String(raw.amountSale ?? ''),
+    amountUsdt: String(raw.amountUsdt ?? ''),
+    note: String(raw.note ?? ''),
+  };
+};
+
+// Accepts files produced by dealsToCsv / dealsToJson; rows without a currency pair are skipped.
+export const parseDealsFile = (text: string, fileName: string): Deal[] => {
+  const trimmed = text.trim();
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let data;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new LocalizedError('Deals file is not valid JSON', 'journal.error.invalidJson');
+    }
+    const list = Array.isArray(data) ? data : data && Array.isArray(data.deals) ? data.deals : null;
+    if (!list) throw new LocalizedError('JSON file has no deals', 'journal.error.noDeals');
+    return list.map(toDeal).filter((d: Deal | null): d is Deal => d !== null);
+  }
+  const [header, ...rows] = parseCsv(trimmed);
+  if (!header || !header.includes('sourceCurr')) throw new LocalizedError('CSV header must include sourceCurr and targetCurr', 'journal.error.csvHeader');
+  return rows
+    .map(cells => toDeal(Object.fromEntries(header.map((h, i) => [h.trim(), fromCsvCell(cells[i] ?? '')]))))
+    .filter((d): d is Deal => d !== null);
+};
@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+
+// Registers public/sw.js for installable offline use. Skipped in dev, where cached modules would go stale.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(e => console.error('Service worker registration error', e));
+  });
+};
@@ -0,0 +1,168 @@
+import { Decimal } from './decimal';
+import { LegFees, hasFees } from './fees';
+import { AnchorField, convertAmounts, formatMoney, formatFixed, rateDecimals } from './calcEngine';
+import { LocalizedError, Translate } from './i18n';
+import { CalcMode } from './settings';
+
+// Calculator state that travels as a link, and the quote card sent to a counterparty.
+// Rates and amounts in a QuoteState are canonical decimal strings ("1234.5"), whatever the sender's number format.
+
+export interface QuoteState {
+  sourceCurr: string;
+  targetCurr: string;
+  buyRate: string;
+  sellRate: string;
+  anchor: AnchorField;
+  amount: string;
+  calcMode: CalcMode;
+  validUntil: number | null;
+}
+
+export interface QuoteCard {
+  sourceCurr: string;
+  targetCurr: string;
+  buyRate: Decimal;
+  sellRate: Decimal;
+  give: Decimal;
+  receive: Decimal;
+  usdt: Decimal;
+  crossRate: Decimal;          // Give per 1 Receive, all-in
+  feeUsdt: Decimal | null;     // only when the quote includes fees
+  feePct: number | null;
+  createdAt: number;
+  validUntil: number | null;
+}
+
+export const QUOTE_HASH_PARAM = 'quote';
+export const QUOTE_VALIDITY_MINUTES = [15, 60, 240, 1440];
+
+const CURRENCY_RE = /^[A-Z0-9]{2,6}$/;
+const DECIMAL_RE = /^\d+(\.\d+)?$/;
+const ANCHORS: AnchorField[] = ['buy', 'sell', 'usdt'];
+
+// --- LINK ---
+// Plain params rather than an encoded blob, so the link stays readable in a messenger
+export const quoteShareLink = (state: QuoteState, baseUrl: string = window.location.href.split('#')[0]) => {
+  const params = new URLSearchParams({
+    [QUOTE_HASH_PARAM]: `${state.sourceCurr}-${state.targetCurr}`,
+    buy: state.buyRate,
+    sell: state.sellRate,
+    anchor: state.anchor,
+    amount: state.amount,
+    mode: state.calcMode,
+  });
+  if (state.validUntil) params.set('until', String(Math.floor(state.validUntil / 1000)));
+  return `${baseUrl}#${params.toString()}`;
+};
+
+// Reads a quote shared through the URL hash; malformed links are ignored.
+export const readQuoteFromHash = (hash: string = window.location.hash): QuoteState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const [sourceCurr, targetCurr] = (params.get(QUOTE_HASH_PARAM) || '').toUpperCase().split('-');
+  if (!CURRENCY_RE.test(sourceCurr || '') || !CURRENCY_RE.test(targetCurr || '') || sourceCurr === targetCurr) return null;
+  const buyRate = params.get('buy') || '';
+  const sellRate = params.get('sell') || '';
+  if (!DECIMAL_RE.test(buyRate) || !DECIMAL_RE.test(sellRate) || !parseFloat(buyRate) || !parseFloat(sellRate)) return null;
+  const anchor = params.get('anchor') as AnchorField;
+  const amount = params.get('amount') || '';
+  const until = Number(params.get('until'));
+  return {
+    sourceCurr,
+    targetCurr,
+    buyRate,
+    sellRate,
+    anchor: ANCHORS.includes(anchor) ? anchor : 'buy',
+    amount: DECIMAL_RE.test(amount) ? amount : '',
+    calcMode: params.get('mode') === 'approx' ? 'approx' : 'exact',
+    validUntil: until > 0 ? until * 1000 : null,
+  };
+};
+
+// --- CARD ---
+// Amounts always match the calculator; `showFees` only adds the fee line to the card
+export const createQuoteCard = (state: QuoteState, fees: LegFees, showFees: boolean, now: number = Date.now()): QuoteCard | null => {
+  const withFees = showFees && hasFees(fees);
+  const result = convertAmounts({ buyRate: state.buyRate, sellRate: state.sellRate, anchor: state.anchor, amount: state.amount, fees });
+  if (!result || !result.buy.isPositive() || !result.sell.isPositive()) return null;
+  return {
+    sourceCurr: state.sourceCurr,
+    targetCurr: state.targetCurr,
+    buyRate: Decimal.from(state.buyRate),
+    sellRate: Decimal.from(state.sellRate),
+    give: result.buy,
+    receive: result.sell,
+    usdt: result.usdt,
+    crossRate: result.breakdown.effectiveRate,
+    feeUsdt: withFees ? result.breakdown.totalFeeUsdt : null,
+    feePct: withFees ? result.breakdown.feePct : null,
+    createdAt: now,
+    validUntil: state.validUntil,
+  };
+};
+
+// Label/value pairs shared by the on-screen card, the text message and the image
+export const quoteRows = (card: QuoteCard, t: Translate, locale: string): [string, string][] => {
+  const { sourceCurr: src, targetCurr: dst } = card;
+  const rows: [string, string][] = [
+    [t('quote.give'), `${formatMoney(card.give, src)} ${src}`],
+    [t('quote.receive'), `${formatMoney(card.receive, dst)} ${dst}`],
+    [t('quote.buyRate'), `${formatFixed(card.buyRate, rateDecimals(src))} ${src}`],
+    [t('quote.sellRate'), `${formatFixed(card.sellRate, rateDecimals(dst))} ${dst}`],
+    [t('quote.crossRate', { currency: dst }), `${formatFixed(card.crossRate, 4)} ${src}`],
+  ];
+  if (card.feeUsdt) rows.push([t('quote.fees'), `${formatMoney(card.feeUsdt, 'USDT')} USDT (${formatFixed(card.feePct ?? 0, 2)}%)`]);
+  if (card.validUntil) rows.push([t('quote.validUntil'), new Date(card.validUntil).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })]);
+  return rows;
+};
+
+export const quoteTitle = (card: QuoteCard, t: Translate) => t('quote.cardTitle', { source: card.sourceCurr, target: card.targetCurr });
+
+export const quoteText = (card: QuoteCard, t: Translate, locale: string, link?: string) =>
+  [quoteTitle(card, t), ...quoteRows(card, t, locale).map(([label, value]) => `${label}: ${value}`), link || '']
+    .filter(Boolean).join('\n');
+
+// --- IMAGE ---
+const IMAGE_WIDTH = 360;
+const ROW_HEIGHT = 28;
+
+export const renderQuoteImage = (card: QuoteCard, t: Translate, locale: string, scale: number = 2): Promise<Blob> => {
+  const rows = quoteRows(card, t, locale);
+  const height = 96 + rows.length * ROW_HEIGHT + 40;
+  const canvas = document.createElement('canvas');
+  canvas.width = IMAGE_WIDTH * scale;
+  canvas.height = height * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new LocalizedError('Canvas is not supported', 'quote.error.noCanvas'));
+  ctx.scale(scale, scale);
+  const font = (size: number, weight = 400) => `${weight} ${size}px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
+
+  ctx.fillStyle = '#F2F3F5';
+  ctx.fillRect(0, 0, IMAGE_WIDTH, height);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.beginPath();
+  ctx.roundRect(12, 12, IMAGE_WIDTH - 24, height - 24, 20);
+  ctx.fill();
+
+  ctx.fillStyle = '#2866E0';
+  ctx.font = font(20, 700);
+  ctx.fillText(quoteTitle(card, t), 32, 52);
+  ctx.fillStyle = '#999999';
+  ctx.font = font(12);
+  ctx.fillText(new Date(card.createdAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' }), 32, 74);
+
+  rows.forEach(([label, value], i) => {
+    const y = 108 + i * ROW_HEIGHT;
+    const strong = i < 2;
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#6B7280';
+    ctx.font = font(13);
+    ctx.fillText(label, 32, y);
+    ctx.textAlign = 'right';
+    ctx.fillStyle = '#111827';
+    ctx.font = font(strong ? 16 : 13, strong ? 700 : 500);
+    ctx.fillText(value, IMAGE_WIDTH - 32, y);
+  });
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new LocalizedError('Could not render the quote image', 'quote.error.render')), 'image/png'));
+};
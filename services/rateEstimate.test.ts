@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EstimatorClient, ESTIMATE_TTL, RateEstimateError, createGeminiClient, createRateEstimator, parseEstimate } from './rateEstimate';
+import { errorMessage } from './i18n';
+
+// Answers with the given texts in turn and counts the calls
+const stubClient = (...replies: string[]) => {
+  const generateContent = vi.fn(async () => ({ text: replies[Math.min(generateContent.mock.calls.length - 1, replies.length - 1)] }));
+  const client: EstimatorClient = { models: { generateContent } };
+  return { client, generateContent };
+};
+
+const CACHE_KEY = 'p2p_rate_estimates';
+
+const reply = (buy: number, sell: number) => JSON.stringify({ buy, sell, rationale: 'P2P ads' });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createRateEstimator', () => {
+  it('is unavailable without an API key', async () => {
+    const estimator = createRateEstimator(createGeminiClient(''));
+    expect(estimator.available).toBe(false);
+    await expect(estimator.estimate('RUB', 92)).rejects.toBeInstanceOf(RateEstimateError);
+  });
+
+  it('serves a cached estimate until the TTL runs out', async () => {
+    const { client, generateContent } = stubClient(reply(95, 90), reply(96, 91));
+    const estimator = createRateEstimator(client);
+    expect((await estimator.estimate('RUB', 92)).buy).toBe(95);
+    expect((await estimator.estimate('RUB', 92)).buy).toBe(95);
+    expect(estimator.cached('RUB')?.sell).toBe(90);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + ESTIMATE_TTL);
+    expect(estimator.cached('RUB')).toBeNull();
+    expect((await estimator.estimate('RUB', 92)).buy).toBe(96);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('bypasses the cache when forced', async () => {
+    const { client, generateContent } = stubClient(reply(95, 90), reply(96, 91));
+    const estimator = createRateEstimator(client);
+    await estimator.estimate('RUB', 92);
+    expect((await estimator.estimate('RUB', 92, { force: true })).buy).toBe(96);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent calls', async () => {
+    const { client, generateContent } = stubClient(reply(95, 90));
+    const estimator = createRateEstimator(client);
+    const [a, b] = await Promise.all([estimator.estimate('RUB', 92), estimator.estimate('RUB', 92)]);
+    expect(a).toBe(b);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache a rejected reply', async () => {
+    const { client, generateContent } = stubClient('not json', reply(95, 90));
+    const estimator = createRateEstimator(client);
+    await expect(estimator.estimate('RUB', 92)).rejects.toThrow('not valid JSON');
+    expect(estimator.cached('RUB')).toBeNull();
+    expect((await estimator.estimate('RUB', 92)).buy).toBe(95);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('estimate cache', () => {
+  it('ignores a cache that is not an object', () => {
+    localStorage.setItem(CACHE_KEY, '[1, 2]');
+    const { client } = stubClient(reply(95, 90));
+    expect(createRateEstimator(client).cached('RUB')).toBeNull();
+  });
+
+  it('skips malformed entries and keeps valid ones', async () => {
+    const valid = { currency: 'THB', buy: 36, sell: 35, rationale: '', model: 'model', fetchedAt: Date.now() };
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ RUB: { buy: '95', fetchedAt: Date.now() }, USD: null, THB: valid }));
+    const { client, generateContent } = stubClient(reply(95, 90));
+    const estimator = createRateEstimator(client);
+    expect(estimator.cached('RUB')).toBeNull();
+    expect(estimator.cached('THB')).toEqual(valid);
+    expect((await estimator.estimate('RUB', 92)).buy).toBe(95);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseEstimate', () => {
+  it('rejects a reply that is not JSON', () => {
+    expect(() => parseEstimate('Around 95 RUB', 'RUB', 92, 'model')).toThrow(RateEstimateError);
+    expect(() => parseEstimate(undefined, 'RUB', 92, 'model')).toThrow(RateEstimateError);
+  });
+
+  it('rejects JSON that is not an object', () => {
+    for (const text of ['null', '5', '"95"', '[95, 90]']) {
+      expect(() => parseEstimate(text, 'RUB', 92, 'model')).toThrow(RateEstimateError);
+    }
+  });
+
+  it('rejects missing or non-positive prices', () => {
+    expect(() => parseEstimate(JSON.stringify({ buy: 'a lot', sell: 90 }), 'RUB', 92, 'model')).toThrow(RateEstimateError);
+    expect(() => parseEstimate(reply(0, 90), 'RUB', 92, 'model')).toThrow(RateEstimateError);
+  });
+
+  it('rejects prices too far from the CB rate', () => {
+    expect(() => parseEstimate(reply(200, 90), 'RUB', 92, 'model')).toThrow('too far from the CB rate');
+    expect(parseEstimate(reply(200, 90), 'RUB', undefined, 'model').buy).toBe(200);
+  });
+
+  it('carries a catalog key for the message shown to the user', () => {
+    const error = (() => { try { parseEstimate(reply(200, 90), 'RUB', 92, 'model'); } catch (e) { return e; } })();
+    expect(errorMessage(error, (key, params) => `${key} ${params?.currency}`)).toBe('estimate.error.farFromCb RUB');
+  });
+});
@@ -0,0 +1,160 @@
+import { GenerateContentParameters } from '@google/genai';
+import { MessageKey } from './i18n';
+
+// Suggested P2P USDT prices from Gemini, shown next to the CB rate. Prices are "units of currency per 1 USDT":
+// `buy` is what a trader pays for 1 USDT, `sell` what they receive for 1 USDT.
+
+export interface RateEstimate {
+  currency: string;
+  buy: number;
+  sell: number;
+  rationale: string;
+  model: string;
+  fetchedAt: number;
+}
+
+// The slice of the Gemini client the estimator needs; a stub with the same shape can stand in for it.
+export interface EstimatorClient {
+  models: {
+    generateContent: (params: GenerateContentParameters) => Promise<{ text?: string }>;
+  };
+}
+
+export interface RateEstimator {
+  available: boolean;
+  cached: (currency: string) => RateEstimate | null;
+  estimate: (currency: string, cb?: number, options?: EstimateOptions) => Promise<RateEstimate>;
+}
+
+export interface EstimateOptions {
+  force?: boolean;
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export class RateEstimateError extends Error {
+  constructor(message: string, public readonly key?: MessageKey, public readonly params?: Record<string, string | number>) {
+    super(message);
+    this.name = 'RateEstimateError';
+  }
+}
+
+const CACHE_KEY = 'p2p_rate_estimates';
+export const DEFAULT_ESTIMATE_MODEL = 'gemini-2.5-flash';
+export const ESTIMATE_TTL = 30 * 60 * 1000;
+// Answers further than this from the CB rate are treated as hallucinated
+const MAX_CB_DEVIATION = 0.5;
+
+const RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    buy: { type: 'number', description: 'Typical price in the currency to buy 1 USDT on P2P markets' },
+    sell: { type: 'number', description: 'Typical price in the currency received for selling 1 USDT on P2P markets' },
+    rationale: { type: 'string', description: 'One or two sentences on what the estimate is based on' },
+  },
+  required: ['buy', 'sell', 'rationale'],
+};
+
+const buildPrompt = (currency: string, cb: number | undefined, language: string) => [
+  `Estimate the typical current P2P market price of USDT in ${currency} on popular platforms such as Binance P2P, Bybit P2P and OKX P2P.`,
+  cb ? `For reference, the official exchange rate is ${cb} ${currency} per 1 USD.` : '',
+  'Return "buy" (what a user pays per 1 USDT) and "sell" (what a user receives per 1 USDT) as plain numbers,',
+  `and a short rationale written in ${language}.`,
+].filter(Boolean).join(' ');
+
+// --- CACHE ---
+const isEstimate = (v: unknown): v is RateEstimate => {
+  if (!v || typeof v !== 'object') return false;
+  const e = v as Partial<Record<keyof RateEstimate, unknown>>;
+  const isPrice = (p: unknown) => typeof p === 'number' && isFinite(p) && p > 0;
+  return typeof e.currency === 'string' && isPrice(e.buy) && isPrice(e.sell) && typeof e.rationale === 'string'
+    && typeof e.model === 'string' && typeof e.fetchedAt === 'number' && isFinite(e.fetchedAt);
+};
+
+// Entries of the wrong shape are dropped one by one, as if they had expired
+const loadCache = (): Record<string, RateEstimate> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return {};
+  return Object.fromEntries(Object.entries(data).filter(([currency, entry]) => isEstimate(entry) && entry.currency === currency));
+};
+
+const saveCache = (cache: Record<string, RateEstimate>) => localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+
+// --- PARSING ---
+export const parseEstimate = (text: string | undefined, currency: string, cb: number | undefined, model: string, now: number = Date.now()): RateEstimate => {
+  if (!text) throw new RateEstimateError('Empty response from the model', 'estimate.error.empty');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new RateEstimateError('Model response is not valid JSON', 'estimate.error.invalidJson');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new RateEstimateError('Model response is not a JSON object', 'estimate.error.invalidJson');
+  const data = parsed as { buy?: unknown; sell?: unknown; rationale?: unknown };
+  const buy = Number(data.buy);
+  const sell = Number(data.sell);
+  if (!isFinite(buy) || !isFinite(sell) || buy <= 0 || sell <= 0) throw new RateEstimateError('Model returned no usable prices', 'estimate.error.noPrices');
+  if (cb && [buy, sell].some(p => Math.abs(p - cb) / cb > MAX_CB_DEVIATION)) {
+    throw new RateEstimateError(`Estimate for ${currency} is too far from the CB rate`, 'estimate.error.farFromCb', { currency });
+  }
+  return { currency, buy, sell, rationale: typeof data.rationale === 'string' ? data.rationale.trim() : '', model, fetchedAt: now };
+};
+
+// --- ESTIMATOR ---
+// The SDK is loaded on the first request, so the calculator does not download it up front.
+export const createGeminiClient = (apiKey: string | undefined = process.env.GEMINI_API_KEY || process.env.API_KEY): EstimatorClient | null => {
+  if (!apiKey) return null;
+  let sdk: Promise<EstimatorClient> | null = null;
+  return {
+    models: {
+      generateContent: (params) => {
+        sdk ??= import('@google/genai').then(({ GoogleGenAI }) => new GoogleGenAI({ apiKey }));
+        return sdk.then(client => client.models.generateContent(params));
+      },
+    },
+  };
+};
+
+// Without a client the estimator reports itself unavailable and the UI hides the suggestion.
+export const createRateEstimator = (client: EstimatorClient | null, { model = DEFAULT_ESTIMATE_MODEL, ttl = ESTIMATE_TTL } = {}): RateEstimator => {
+  const inFlight = new Map<string, Promise<RateEstimate>>();
+
+  const cached = (currency: string) => {
+    const hit = loadCache()[currency];
+    return hit && Date.now() - hit.fetchedAt < ttl ? hit : null;
+  };
+
+  const estimate = (currency: string, cb?: number, { force = false, language = 'English', signal }: EstimateOptions = {}) => {
+    if (!client) return Promise.reject(new RateEstimateError('Gemini API key is not configured', 'estimate.error.noKey'));
+    const hit = force ? null : cached(currency);
+    if (hit) return Promise.resolve(hit);
+    const pending = inFlight.get(currency);
+    if (pending) return pending;
+
+    const request = client.models.generateContent({
+      model,
+      contents: buildPrompt(currency, cb, language),
+      config: { responseMimeType: 'application/json', responseJsonSchema: RESPONSE_SCHEMA, abortSignal: signal },
+    }).then(res => {
+      const result = parseEstimate(res.text, currency, cb, model);
+      saveCache({ ...loadCache(), [currency]: result });
+      return result;
+    }).finally(() => inFlight.delete(currency));
+    inFlight.set(currency, request);
+    return request;
+  };
+
+  return { available: client !== null, cached, estimate };
+};
+
+let defaultEstimator: RateEstimator | null = null;
+
+export const getDefaultEstimator = () => {
+  if (!defaultEstimator) defaultEstimator = createRateEstimator(createGeminiClient());
+  return defaultEstimator;
+};
@@ -0,0 +1,95 @@
+import { runTx } from './db';
+import { RateSnapshot } from './rates';
+import { calculateSpread } from './calcEngine';
+
+// Time series of fetched CB rates and the P2P rates typed by the user.
+
+export interface CbRecord {
+  id?: number;
+  ts: number;
+  kind: 'cb';
+  rates: Record<string, number>;
+  asOf?: number; // publication time of the table; absent from records written before it was kept
+}
+
+export interface UserRateRecord {
+  id?: number;
+  ts: number;
+  kind: 'user';
+  currency: string;
+  side: 'buy' | 'sell';
+  rate: number;
+  cb: number | null;
+}
+
+export type HistoryRecord = CbRecord | UserRateRecord;
+
+export interface SeriesPoint {
+  ts: number;
+  value: number;
+}
+
+export interface CurrencySeries {
+  cb: SeriesPoint[];
+  buy: SeriesPoint[];
+  sell: SeriesPoint[];
+  buySpread: SeriesPoint[];
+  sellSpread: SeriesPoint[];
+}
+
+export type HistoryRange = 'day' | 'week' | 'month';
+
+const DAY = 24 * 60 * 60 * 1000;
+export const HISTORY_RANGES: Record<HistoryRange, number> = { day: DAY, week: 7 * DAY, month: 30 * DAY };
+const RETENTION = 90 * DAY;
+// Each published CB table is stored once, however often it is fetched or reloaded from the cache
+let lastAsOf: number | null = null;
+
+const pickRates = (rates: Record<string, number>, currencies: string[]) => {
+  const picked: Record<string, number> = {};
+  currencies.forEach(c => { if (rates[c]) picked[c] = rates[c]; });
+  return picked;
+};
+
+export const recordCbSnapshot = async (snapshot: RateSnapshot, currencies: string[]) => {
+  const rates = pickRates(snapshot.rates, currencies);
+  if (!Object.keys(rates).length || snapshot.asOf === lastAsOf) return;
+  lastAsOf = snapshot.asOf;
+  // After a reload only the database knows what was stored; a table is never recorded before it was published
+  const stored = await loadHistory(snapshot.asOf);
+  if (stored.some(r => r.kind === 'cb' && r.asOf === snapshot.asOf)) return;
+  await runTx('rateHistory', 'readwrite', store => store.add({ ts: snapshot.fetchedAt, kind: 'cb', rates, asOf: snapshot.asOf } as CbRecord));
+};
+
+export const recordUserRate = (currency: string, side: 'buy' | 'sell', rate: number, cb: number | null) => {
+  if (!rate) return Promise.resolve(undefined);
+  return runTx('rateHistory', 'readwrite', store => store.add({ ts: Date.now(), kind: 'user', currency, side, rate, cb } as UserRateRecord));
+};
+
+export const loadHistory = async (since: number): Promise<HistoryRecord[]> => {
+  const records = await runTx<HistoryRecord[]>('rateHistory', 'readonly',
+    store => store.index('ts').getAll(IDBKeyRange.lowerBound(since)) as IDBRequest<HistoryRecord[]>);
+  return records || [];
+};
+
+export const pruneHistory = (now: number = Date.now()) => runTx('rateHistory', 'readwrite', store => {
+  const req = store.index('ts').openCursor(IDBKeyRange.upperBound(now - RETENTION));
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (cursor) { cursor.delete(); cursor.continue(); }
+  };
+});
+
+export const buildSeries = (records: HistoryRecord[], currency: string): CurrencySeries => {
+  const series: CurrencySeries = { cb: [], buy: [], sell: [], buySpread: [], sellSpread: [] };
+  records.forEach(r => {
+    if (r.kind === 'cb') {
+      if (r.rates[currency]) series.cb.push({ ts: r.ts, value: r.rates[currency] });
+      return;
+    }
+    if (r.currency !== currency) return;
+    series[r.side].push({ ts: r.ts, value: r.rate });
+    if (r.cb) (r.side === 'buy' ? series.buySpread : series.sellSpread).push({ ts: r.ts, value: calculateSpread(r.rate, r.cb) });
+  });
+  return series;
+};
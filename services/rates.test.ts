@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RateProviderError, RATES_STALE_AFTER, createMockProvider, fetchWithFallback, isSnapshotStale, loadCachedSnapshot, saveSnapshot,
+} from './rates';
+import { errorMessage } from './i18n';
+
+const SNAPSHOT_KEY = 'p2p_rates_snapshot';
+
+describe('fetchWithFallback', () => {
+  it('falls back to the next provider when one fails', async () => {
+    const snapshot = await fetchWithFallback([createMockProvider({}, { fail: true }), createMockProvider({ RUB: 92.5 })]);
+    expect(snapshot.rates).toEqual({ RUB: 92.5 });
+  });
+
+  it('moves on from a provider that does not reply in time', async () => {
+    const snapshot = await fetchWithFallback([createMockProvider({ RUB: 1 }, { delayMs: 200 }), createMockProvider({ RUB: 92.5 })], undefined, 20);
+    expect(snapshot.rates).toEqual({ RUB: 92.5 });
+  });
+
+  it('skips an empty rate table', async () => {
+    const snapshot = await fetchWithFallback([createMockProvider({}), createMockProvider({ THB: 36 })]);
+    expect(snapshot.rates).toEqual({ THB: 36 });
+  });
+
+  it('reports every cause when all providers fail', async () => {
+    const error = await fetchWithFallback([createMockProvider({}, { fail: true }), createMockProvider({}, { fail: true })]).catch(e => e);
+    expect(error).toBeInstanceOf(RateProviderError);
+    expect(error.causes).toHaveLength(2);
+    expect(errorMessage(error, key => key)).toBe('rates.error.allFailed');
+  });
+});
+
+describe('isSnapshotStale', () => {
+  const now = Date.now();
+  const snapshot = (fetchedAt: number) => ({ rates: { RUB: 92.5 }, asOf: fetchedAt, fetchedAt, source: 'mock' });
+
+  it('treats a missing snapshot as stale', () => {
+    expect(isSnapshotStale(null, now)).toBe(true);
+  });
+
+  it('goes stale after the max age', () => {
+    expect(isSnapshotStale(snapshot(now - 1000), now)).toBe(false);
+    expect(isSnapshotStale(snapshot(now - RATES_STALE_AFTER - 1), now)).toBe(true);
+    expect(isSnapshotStale(snapshot(now - 1000), now, 500)).toBe(true);
+  });
+});
+
+describe('snapshot cache', () => {
+  it('round-trips a saved snapshot', () => {
+    const snapshot = { rates: { RUB: 92.5 }, asOf: 1000, fetchedAt: 2000, source: 'mock' };
+    saveSnapshot(snapshot);
+    expect(loadCachedSnapshot()).toEqual(snapshot);
+  });
+
+  it('ignores a corrupted cache', () => {
+    localStorage.setItem(SNAPSHOT_KEY, '{"rates":');
+    expect(loadCachedSnapshot()).toBeNull();
+    localStorage.setItem(SNAPSHOT_KEY, JSON.stringify({ rates: { RUB: 92.5 } }));
+    expect(loadCachedSnapshot()).toBeNull();
+  });
+
+  it('drops invalid rates from the cache', () => {
+    localStorage.setItem(SNAPSHOT_KEY, JSON.stringify({ rates: { rub: '92.5', THB: -1, EUR: 'x' }, fetchedAt: 2000 }));
+    expect(loadCachedSnapshot()?.rates).toEqual({ RUB: 92.5 });
+  });
+});
@@ -0,0 +1,174 @@
+import { MessageKey } from './i18n';
+
+// Rate providers return CB-style rates quoted against USD (units of currency per 1 USD).
+
+export interface RateSnapshot {
+  rates: Record<string, number>;
+  asOf: number;      // publication time reported by the source
+  fetchedAt: number; // when this app last received the table; staleness is measured from here
+  source: string;
+}
+
+export interface RateProvider {
+  id: string;
+  name: string;
+  fetchRates: (signal?: AbortSignal) => Promise<RateSnapshot>;
+}
+
+// `key` marks the errors shown to the user; the others only end up in `causes`
+export class RateProviderError extends Error {
+  constructor(message: string, public readonly causes: { provider: string; error: unknown }[] = [], public readonly key?: MessageKey) {
+    super(message);
+    this.name = 'RateProviderError';
+  }
+}
+
+const SNAPSHOT_KEY = 'p2p_rates_snapshot';
+const MANUAL_RATES_KEY = 'p2p_manual_rates';
+
+export const RATES_REFRESH_INTERVAL = 10 * 60 * 1000;
+export const RATES_STALE_AFTER = 6 * 60 * 60 * 1000;
+// Each provider gets its own budget, so one that hangs does not use up the time of the fallbacks
+export const PROVIDER_TIMEOUT = 10 * 1000;
+
+const cleanRates = (raw: Record<string, unknown>) => {
+  const rates: Record<string, number> = {};
+  Object.entries(raw).forEach(([code, val]) => {
+    const n = typeof val === 'number' ? val : parseFloat(String(val));
+    if (isFinite(n) && n > 0) rates[code.toUpperCase()] = n;
+  });
+  return rates;
+};
+
+const fetchJson = async (url: string, signal?: AbortSignal) => {
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new RateProviderError(`HTTP ${res.status} from ${url}`);
+  return res.json();
+};
+
+// --- PROVIDERS ---
+export const createOpenErApiProvider = (): RateProvider => ({
+  id: 'open-er-api',
+  name: 'open.er-api.com',
+  fetchRates: async (signal) => {
+    const data = await fetchJson('https://open.er-api.com/v6/latest/USD', signal);
+    if (!data || data.result === 'error' || !data.rates) throw new RateProviderError('open.er-api returned no rates');
+    const asOf = data.time_last_update_unix ? data.time_last_update_unix * 1000 : Date.now();
+    return { rates: cleanRates(data.rates), asOf, fetchedAt: Date.now(), source: 'open.er-api.com' };
+  },
+});
+
+// Fallback public mirror; keys are lowercase and nested under the base currency.
+export const createCurrencyApiProvider = (): RateProvider => ({
+  id: 'currency-api',
+  name: 'currency-api (jsDelivr)',
+  fetchRates: async (signal) => {
+    const data = await fetchJson('https://cdn.jsdelivr.net/npm/@fawazahmed0/currency-api@latest/v1/currencies/usd.json', signal);
+    if (!data || !data.usd) throw new RateProviderError('currency-api returned no rates');
+    const asOf = data.date ? Date.parse(data.date) || Date.now() : Date.now();
+    return { rates: cleanRates(data.usd), asOf, fetchedAt: Date.now(), source: 'currency-api' };
+  },
+});
+
+// Rates typed in or imported from a JSON file ({ "RUB": 92.5, ... } or { "rates": { ... } }).
+export const parseRatesJson = (text: string): Record<string, number> => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RateProviderError('File is not valid JSON', [], 'rates.error.invalidJson');
+  }
+  const raw = data && typeof data === 'object' && data.rates && typeof data.rates === 'object' ? data.rates : data;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new RateProviderError('JSON must be an object of currency rates', [], 'rates.error.notObject');
+  const rates = cleanRates(raw);
+  if (Object.keys(rates).length === 0) throw new RateProviderError('JSON contains no valid rates', [], 'rates.error.noRates');
+  return { ...rates, USD: 1 };
+};
+
+export const loadManualRates = (): { rates: Record<string, number>; savedAt: number } | null => {
+  try {
+    const saved = localStorage.getItem(MANUAL_RATES_KEY);
+    if (!saved) return null;
+    const data = JSON.parse(saved);
+    return data && data.rates ? { rates: cleanRates(data.rates), savedAt: data.savedAt || 0 } : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveManualRates = (rates: Record<string, number> | null) => {
+  if (!rates) localStorage.removeItem(MANUAL_RATES_KEY);
+  else localStorage.setItem(MANUAL_RATES_KEY, JSON.stringify({ rates, savedAt: Date.now() }));
+};
+
+export const createManualProvider = (): RateProvider => ({
+  id: 'manual',
+  name: 'Manual rates',
+  fetchRates: async () => {
+    const manual = loadManualRates();
+    if (!manual || Object.keys(manual.rates).length === 0) throw new RateProviderError('No manual rates configured');
+    return { rates: manual.rates, asOf: manual.savedAt, fetchedAt: manual.savedAt, source: 'manual' };
+  },
+});
+
+// Deterministic provider for tests and local development.
+export const createMockProvider = (
+  rates: Record<string, number>,
+  options: { fail?: boolean; delayMs?: number; fetchedAt?: number } = {}
+): RateProvider => ({
+  id: 'mock',
+  name: 'Mock rates',
+  fetchRates: async () => {
+    if (options.delayMs) await new Promise(r => setTimeout(r, options.delayMs));
+    if (options.fail) throw new RateProviderError('Mock provider failure');
+    const fetchedAt = options.fetchedAt ?? Date.now();
+    return { rates: { ...rates }, asOf: fetchedAt, fetchedAt, source: 'mock' };
+  },
+});
+
+export const DEFAULT_PROVIDERS: RateProvider[] = [createOpenErApiProvider(), createCurrencyApiProvider(), createManualProvider()];
+
+// --- FALLBACK CHAIN ---
+// Rejects once the signal aborts, even if the provider ignores it
+const fetchUntilAborted = (provider: RateProvider, signal: AbortSignal) => new Promise<RateSnapshot>((resolve, reject) => {
+  const onAbort = () => reject(signal.reason ?? new RateProviderError('Aborted'));
+  if (signal.aborted) return onAbort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  provider.fetchRates(signal).then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+export const fetchWithFallback = async (providers: RateProvider[], signal?: AbortSignal, timeoutMs: number = PROVIDER_TIMEOUT): Promise<RateSnapshot> => {
+  const causes: { provider: string; error: unknown }[] = [];
+  for (const provider of providers) {
+    if (signal?.aborted) break;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    try {
+      const snapshot = await fetchUntilAborted(provider, signal ? AbortSignal.any([signal, timeout]) : timeout);
+      if (Object.keys(snapshot.rates).length > 0) return snapshot;
+      causes.push({ provider: provider.id, error: new RateProviderError('Empty rate table') });
+    } catch (error) {
+      causes.push({ provider: provider.id, error: timeout.aborted ? new RateProviderError(`No reply within ${timeoutMs / 1000}s`) : error });
+    }
+  }
+  throw new RateProviderError('All rate providers failed', causes, 'rates.error.allFailed');
+};
+
+// --- CACHE ---
+export const loadCachedSnapshot = (): RateSnapshot | null => {
+  try {
+    const saved = localStorage.getItem(SNAPSHOT_KEY);
+    if (!saved) return null;
+    const data = JSON.parse(saved);
+    if (!data || typeof data.fetchedAt !== 'number' || !data.rates) return null;
+    return { rates: cleanRates(data.rates), asOf: data.asOf || data.fetchedAt, fetchedAt: data.fetchedAt, source: String(data.source || 'cache') };
+  } catch {
+    return null;
+  }
+};
+
+export const saveSnapshot = (snapshot: RateSnapshot) => {
+  localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot));
+};
+
+export const isSnapshotStale = (snapshot: RateSnapshot | null, now: number = Date.now(), maxAge: number = RATES_STALE_AFTER) =>
+  !snapshot || now - snapshot.fetchedAt > maxAge;
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { Decimal } from './decimal';
+import { convertAmounts } from './calcEngine';
+import { DEFAULT_ROUTE_SETTINGS, RouteSettings, createPriceFn, findRoutes, sanitizeRouteSettings } from './routes';
+import { LegFees, NO_FEES } from './fees';
+
+const apiRates = { RUB: 90, THB: 36, KZT: 450 };
+const spreads = { RUB: { buy: '5', sell: '0' }, THB: { buy: '0', sell: '-2' }, KZT: { buy: '1', sell: '-1' } };
+const amount = Decimal.from(100000);
+
+const settings = (patch: Partial<RouteSettings> = {}): RouteSettings => ({ ...DEFAULT_ROUTE_SETTINGS, ...patch });
+const price = (s: RouteSettings) => createPriceFn(apiRates, spreads, s.assets);
+
+describe('findRoutes', () => {
+  it('ranks routes by the amount received', () => {
+    const s = settings();
+    const routes = findRoutes('RUB', 'THB', amount, s, price(s));
+    expect(routes.length).toBeGreaterThan(2);
+    routes.slice(1).forEach((route, i) => expect(routes[i].received.cmp(route.received)).toBeGreaterThanOrEqual(0));
+    // USDT carries no premium, so the direct USDT route beats USDC and any detour
+    expect(routes[0].id).toBe('RUB-USDT>THB');
+    expect(routes[0].path).toEqual(['RUB', 'USDT', 'THB']);
+  });
+
+  it('routes through a via fiat in two hops', () => {
+    const s = settings({ viaFiats: ['KZT'] });
+    const via = findRoutes('RUB', 'THB', amount, s, price(s)).find(r => r.id === 'RUB-USDT>KZT-USDT>THB');
+    expect(via?.hops).toHaveLength(2);
+    expect(via?.hops[1].assetAmount.cmp(via.hops[0].assetAmount)).toBeLessThan(0);
+  });
+
+  it('prefers a pinned price', () => {
+    const s = settings({ viaFiats: [] });
+    const pinned = createPriceFn(apiRates, spreads, s.assets, { 'USDC:RUB:buy': Decimal.from(80) });
+    expect(findRoutes('RUB', 'THB', amount, s, pinned)[0].id).toBe('RUB-USDC>THB');
+  });
+
+  it('skips disabled assets and empty input', () => {
+    const s = settings({ assets: DEFAULT_ROUTE_SETTINGS.assets.map(a => ({ ...a, enabled: a.code === 'USDC' })), viaFiats: [] });
+    expect(findRoutes('RUB', 'THB', amount, s, price(s)).map(r => r.id)).toEqual(['RUB-USDC>THB']);
+    expect(findRoutes('RUB', 'THB', Decimal.ZERO, s, price(s))).toEqual([]);
+    expect(findRoutes('RUB', 'RUB', amount, s, price(s))).toEqual([]);
+  });
+
+  it('charges fees so the calculator reproduces the route total', () => {
+    const fees: LegFees = { ...NO_FEES, buyFiat: { pct: Decimal.from(1), fixed: Decimal.ZERO }, network: { pct: Decimal.ZERO, fixed: Decimal.from(1) } };
+    const s = settings();
+    const [route] = findRoutes('RUB', 'THB', amount, s, price(s), fees);
+    const [feeFree] = findRoutes('RUB', 'THB', amount, s, price(s));
+    expect(route.received.cmp(feeFree.received)).toBeLessThan(0);
+    const result = convertAmounts({ buyRate: route.buyRate, sellRate: route.sellRate, anchor: 'buy', amount, fees });
+    expect(result?.sell.toString()).toBe(route.received.toString());
+  });
+});
+
+describe('sanitizeRouteSettings', () => {
+  it('resets only the bad fields of an asset', () => {
+    const s = sanitizeRouteSettings({ assets: [{ code: 'USDC', buyPremium: 1, enabled: false }, { code: 'usdc' }], viaFiats: ['KZT', 'kzt', 'KZT'] });
+    expect(s.assets).toEqual([{ ...DEFAULT_ROUTE_SETTINGS.assets[1], enabled: false }]);
+    expect(s.viaFiats).toEqual(['KZT']);
+  });
+});
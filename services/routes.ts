@@ -0,0 +1,165 @@
+import { Decimal } from './decimal';
+import { SpreadMap, convertAmounts, parseDecimal, rateFromSpread } from './calcEngine';
+import { LegFees, NO_FEES } from './fees';
+
+// Route finder: source fiat → asset → target fiat, or with one intermediate fiat
+// (source → asset → via fiat → asset → target). Prices are "fiat per 1 asset". The user's fees are charged
+// on top, the same way the calculator charges them, so a route loaded into it shows the same total.
+
+export type PriceSide = 'buy' | 'sell';
+export type PriceFn = (asset: string, fiat: string, side: PriceSide) => Decimal | null;
+
+export interface RouteAsset {
+  code: string;
+  usdPrice: string;    // USD value of one unit (1 for stablecoins)
+  buyPremium: string;  // % over the fiat's USDT buy price
+  sellPremium: string; // % over the fiat's USDT sell price
+  networkFee: string;  // in asset units, charged once per hop
+  enabled: boolean;
+}
+
+export interface RouteSettings {
+  assets: RouteAsset[];
+  viaFiats: string[];
+}
+
+export interface RouteHop {
+  from: string;
+  to: string;
+  asset: string;
+  buyPrice: Decimal;
+  sellPrice: Decimal;
+  assetAmount: Decimal;
+  received: Decimal;
+}
+
+export interface Route {
+  id: string;
+  path: string[];
+  hops: RouteHop[];
+  received: Decimal;      // after the user's fees
+  effectiveRate: Decimal; // source per 1 target
+  buyRate: Decimal;       // the route as calculator rates: source and target per 1 USD of the first asset leg
+  sellRate: Decimal;
+}
+
+export const DEFAULT_ROUTE_SETTINGS: RouteSettings = {
+  assets: [
+    { code: 'USDT', usdPrice: '1', buyPremium: '0', sellPremium: '0', networkFee: '0', enabled: true },
+    { code: 'USDC', usdPrice: '1', buyPremium: '0.3', sellPremium: '-0.3', networkFee: '0', enabled: true },
+    { code: 'BTC', usdPrice: '0', buyPremium: '0.5', sellPremium: '-0.5', networkFee: '0.00002', enabled: false },
+  ],
+  viaFiats: ['KZT', 'USD'],
+};
+
+const CURRENCY_RE = /^[A-Z0-9]{2,6}$/;
+
+// Field by field against the default asset of the same code, so one bad value only resets itself
+const sanitizeAsset = (raw: unknown): RouteAsset | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const a = raw as Partial<Record<keyof RouteAsset, unknown>>;
+  if (typeof a.code !== 'string' || !CURRENCY_RE.test(a.code)) return null;
+  const base = DEFAULT_ROUTE_SETTINGS.assets.find(x => x.code === a.code)
+    ?? { code: a.code, usdPrice: '0', buyPremium: '0', sellPremium: '0', networkFee: '0', enabled: false };
+  const text = (v: unknown, fallback: string) => typeof v === 'string' ? v : fallback;
+  return {
+    code: base.code,
+    usdPrice: text(a.usdPrice, base.usdPrice),
+    buyPremium: text(a.buyPremium, base.buyPremium),
+    sellPremium: text(a.sellPremium, base.sellPremium),
+    networkFee: text(a.networkFee, base.networkFee),
+    enabled: typeof a.enabled === 'boolean' ? a.enabled : base.enabled,
+  };
+};
+
+export const sanitizeRouteSettings = (raw: unknown): RouteSettings => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof RouteSettings, unknown>>;
+  const assets = Array.isArray(data.assets)
+    ? data.assets.map(sanitizeAsset).filter((a, i, all): a is RouteAsset => !!a && all.findIndex(x => x?.code === a.code) === i)
+    : DEFAULT_ROUTE_SETTINGS.assets;
+  const viaFiats = Array.isArray(data.viaFiats)
+    ? [...new Set(data.viaFiats.filter((c): c is string => typeof c === 'string' && CURRENCY_RE.test(c)))]
+    : DEFAULT_ROUTE_SETTINGS.viaFiats;
+  return { assets, viaFiats };
+};
+
+// Prices from CB rate + the fiat's saved spread + the asset premium; `overrides` pins
+// exact prices (e.g. the rates currently typed into the calculator) by "ASSET:FIAT:side".
+export const createPriceFn = (
+  apiRates: Record<string, number>,
+  spreads: SpreadMap,
+  assets: RouteAsset[],
+  overrides: Record<string, Decimal> = {}
+): PriceFn => (asset, fiat, side) => {
+  const pinned = overrides[`${asset}:${fiat}:${side}`];
+  if (pinned && pinned.isPositive()) return pinned;
+  const cb = apiRates[fiat];
+  const a = assets.find(x => x.code === asset);
+  if (!cb || !a) return null;
+  const usd = parseDecimal(a.usdPrice);
+  if (!usd.isPositive()) return null;
+  const spread = spreads[fiat]?.[side] || '0';
+  const premium = parseDecimal(side === 'buy' ? a.buyPremium : a.sellPremium);
+  return rateFromSpread(cb, spread).times(usd).times(premium.div(100).plus(1));
+};
+
+const hop = (from: string, to: string, asset: RouteAsset, amount: Decimal, price: PriceFn): RouteHop | null => {
+  const buyPrice = price(asset.code, from, 'buy');
+  const sellPrice = price(asset.code, to, 'sell');
+  if (!buyPrice || !sellPrice) return null;
+  const bought = amount.div(buyPrice).minus(parseDecimal(asset.networkFee));
+  const assetAmount = bought.isNegative() ? Decimal.ZERO : bought;
+  return { from, to, asset: asset.code, buyPrice, sellPrice, assetAmount, received: assetAmount.times(sellPrice) };
+};
+
+const buildRoute = (hops: (RouteHop | null)[], amount: Decimal, assets: RouteAsset[], fees: LegFees): Route | null => {
+  if (hops.some(h => !h)) return null;
+  const valid = hops as RouteHop[];
+  const first = assets.find(a => a.code === valid[0].asset)!;
+  const usdValue = valid[0].assetAmount.times(parseDecimal(first.usdPrice));
+  if (!usdValue.isPositive()) return null;
+  const buyRate = amount.div(usdValue);
+  const sellRate = valid[valid.length - 1].received.div(usdValue);
+  const received = convertAmounts({ buyRate, sellRate, anchor: 'buy', amount, fees })?.sell ?? Decimal.ZERO;
+  return {
+    id: valid.map(h => `${h.from}-${h.asset}`).join('>') + `>${valid[valid.length - 1].to}`,
+    path: [valid[0].from, ...valid.flatMap(h => [h.asset, h.to])],
+    hops: valid,
+    received,
+    effectiveRate: received.isPositive() ? amount.div(received) : Decimal.ZERO,
+    buyRate,
+    sellRate,
+  };
+};
+
+// All routes with at most one intermediate fiat, best (largest received amount) first.
+export const findRoutes = (
+  source: string,
+  target: string,
+  amount: Decimal,
+  settings: RouteSettings,
+  price: PriceFn,
+  fees: LegFees = NO_FEES
+): Route[] => {
+  if (!amount.isPositive() || source === target) return [];
+  const assets = settings.assets.filter(a => a.enabled);
+  const routes: Route[] = [];
+
+  assets.forEach(a => {
+    const direct = buildRoute([hop(source, target, a, amount, price)], amount, assets, fees);
+    if (direct) routes.push(direct);
+  });
+
+  settings.viaFiats.filter(f => f !== source && f !== target).forEach(via => {
+    assets.forEach(a1 => {
+      const first = hop(source, via, a1, amount, price);
+      if (!first) return;
+      assets.forEach(a2 => {
+        const route = buildRoute([first, hop(via, target, a2, first.received, price)], amount, assets, fees);
+        if (route) routes.push(route);
+      });
+    });
+  });
+
+  return routes.filter(r => r.received.isPositive()).sort((x, y) => y.received.cmp(x.received));
+};
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SETTINGS_VERSION, SettingsError, defaultSettings, migrateSettings, parseSettingsBackup, validateSettings } from './settings';
+import { errorMessage } from './i18n';
+
+const SETTINGS_KEY = 'p2p_settings';
+
+// The store caches what it loaded, so each load test gets a fresh module
+const freshStore = async () => {
+  vi.resetModules();
+  return import('./settings');
+};
+
+const alert = { id: 'a', kind: 'spread', target: 'RUB', side: 'buy', threshold: '5', direction: 'above' };
+
+describe('validateSettings', () => {
+  it('keeps valid fields and defaults the rest', () => {
+    const settings = validateSettings({ proMode: true, viewMode: 'sideways', arbAmount: '5000' });
+    expect(settings.proMode).toBe(true);
+    expect(settings.viewMode).toBe('convert');
+    expect(settings.arbAmount).toBe('5000');
+  });
+
+  it('falls back per field on corrupted values', () => {
+    const settings = validateSettings({
+      language: 'de',
+      configuredCurrencies: ['RUB', 'rub', 5, 'RUB', 'THB'],
+      proMode: 'true',
+      arbAmount: '1e5',
+      fees: 'none',
+      tiers: [{ from: 'a lot' }],
+      alerts: [alert, { ...alert, id: 'b', threshold: 5 }, { ...alert, id: 'c', kind: 'volume' }],
+      alertSettings: null,
+    });
+    const defaults = defaultSettings();
+    expect(settings.language).toBeNull();
+    expect(settings.configuredCurrencies).toEqual(['RUB', 'THB']);
+    expect(settings.proMode).toBe(false);
+    expect(settings.arbAmount).toBe(defaults.arbAmount);
+    expect(settings.fees).toEqual([]);
+    expect(settings.tiers).toEqual([]);
+    expect(settings.alerts.map(a => a.id)).toEqual(['a']);
+    expect(settings.alertSettings).toEqual(defaults.alertSettings);
+  });
+
+  it('reads a non-object as defaults', () => {
+    expect(validateSettings('settings').proMode).toBe(defaultSettings().proMode);
+  });
+});
+
+describe('migrateSettings', () => {
+  it('turns the legacy keys into the current shape', () => {
+    const settings = validateSettings(migrateSettings({
+      p2p_language: 'ru',
+      p2p_source_curr: 'USD',
+      p2p_target_curr: 'THB',
+      p2p_calc_mode: 'exact',
+      p2p_pro_mode: 'true',
+      p2p_last_buy_rate: '95.5',
+      p2p_last_sell_rate: '90',
+      p2p_spreads: JSON.stringify({ RUB: { buy: '3', sell: '1' } }),
+      p2p_alerts: JSON.stringify([alert]),
+    }, 0));
+    expect(settings.language).toBe('ru');
+    expect(settings.proMode).toBe(true);
+    expect(settings.workspace.tabs[0]).toMatchObject({ sourceCurr: 'USD', targetCurr: 'THB', calcMode: 'exact', buyRate: '95.5', sellRate: '90' });
+    expect(settings.profiles.profiles[0].spreads.RUB).toEqual({ buy: '3', sell: '1' });
+    expect(settings.alerts).toHaveLength(1);
+  });
+
+  it('drops a legacy rate pair with one side missing', () => {
+    const settings = validateSettings(migrateSettings({ p2p_last_buy_rate: '95', p2p_last_sell_rate: 'x' }, 0));
+    expect(settings.workspace.tabs[0]).toMatchObject({ buyRate: '', sellRate: '' });
+  });
+
+  it('moves the version 1 pair into the first workspace tab', () => {
+    const migrated = migrateSettings({ sourceCurr: 'RUB', targetCurr: 'USD', calcMode: 'approx', lastRates: { buy: '95', sell: '90' }, proMode: true }, 1);
+    expect(migrated).not.toHaveProperty('sourceCurr');
+    expect(migrated).not.toHaveProperty('lastRates');
+    const settings = validateSettings(migrated);
+    expect(settings.proMode).toBe(true);
+    expect(settings.workspace.tabs).toHaveLength(1);
+    expect(settings.workspace.tabs[0]).toMatchObject({ sourceCurr: 'RUB', targetCurr: 'USD', buyRate: '95', sellRate: '90' });
+  });
+
+  it('leaves current data alone', () => {
+    const data = { proMode: true };
+    expect(migrateSettings(data, SETTINGS_VERSION)).toBe(data);
+  });
+
+  it('refuses data from a newer version', () => {
+    expect(() => migrateSettings({}, SETTINGS_VERSION + 1)).toThrow(SettingsError);
+  });
+});
+
+describe('parseSettingsBackup', () => {
+  it('rejects a file that is not a backup', () => {
+    const error = (() => { try { parseSettingsBackup('{"settings":{}}'); } catch (e) { return e; } })();
+    expect(error).toBeInstanceOf(SettingsError);
+    expect(errorMessage(error, key => key)).toBe('settings.error.notBackup');
+  });
+
+  it('migrates an older backup', () => {
+    const backup = JSON.stringify({ type: 'p2p-settings', version: 1, settings: { sourceCurr: 'THB', targetCurr: 'RUB' } });
+    expect(parseSettingsBackup(backup).workspace.tabs[0]).toMatchObject({ sourceCurr: 'THB', targetCurr: 'RUB' });
+  });
+});
+
+describe('loadSettings', () => {
+  it('migrates legacy keys once and removes them', async () => {
+    localStorage.setItem('p2p_pro_mode', 'true');
+    localStorage.setItem('p2p_source_curr', 'USD');
+    const { loadSettings, settingsLoadError } = await freshStore();
+    expect(loadSettings().proMode).toBe(true);
+    expect(loadSettings().workspace.tabs[0].sourceCurr).toBe('USD');
+    expect(localStorage.getItem('p2p_pro_mode')).toBeNull();
+    expect(JSON.parse(localStorage.getItem(SETTINGS_KEY)!).version).toBe(SETTINGS_VERSION);
+    expect(settingsLoadError()).toBeNull();
+  });
+
+  it('upgrades an older stored version in place', async () => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: 1, settings: { sourceCurr: 'THB', targetCurr: 'USD' } }));
+    const { loadSettings } = await freshStore();
+    expect(loadSettings().workspace.tabs[0]).toMatchObject({ sourceCurr: 'THB', targetCurr: 'USD' });
+    expect(JSON.parse(localStorage.getItem(SETTINGS_KEY)!).version).toBe(SETTINGS_VERSION);
+  });
+
+  it('keeps a corrupted copy and reports it', async () => {
+    localStorage.setItem(SETTINGS_KEY, '{"version":');
+    const { loadSettings, settingsLoadError, resetSettings } = await freshStore();
+    expect(loadSettings().configuredCurrencies).toEqual(defaultSettings().configuredCurrencies);
+    expect(localStorage.getItem(`${SETTINGS_KEY}_corrupted`)).toBe('{"version":');
+    expect(errorMessage(settingsLoadError(), key => key)).toBe('settings.error.corrupted');
+    resetSettings();
+    expect(settingsLoadError()).toBeNull();
+  });
+
+  it('reports settings saved by a newer version', async () => {
+    const saved = JSON.stringify({ version: SETTINGS_VERSION + 1, settings: { proMode: true } });
+    localStorage.setItem(SETTINGS_KEY, saved);
+    const { loadSettings, settingsLoadError } = await freshStore();
+    expect(loadSettings().proMode).toBe(false);
+    expect(localStorage.getItem(`${SETTINGS_KEY}_corrupted`)).toBe(saved);
+    expect(errorMessage(settingsLoadError(), key => key)).toBe('settings.error.newerVersion');
+  });
+});
@@ -0,0 +1,232 @@
+import { parseDecimal } from './calcEngine';
+import { ProfilesState, defaultProfiles, sanitizeProfiles, sanitizeSpreads } from './spreadProfiles';
+import { FeeRule, sanitizeFeeRules } from './fees';
+import { VolumeTier, sanitizeTiers } from './tiers';
+import { RouteSettings, DEFAULT_ROUTE_SETTINGS, sanitizeRouteSettings } from './routes';
+import { RateAlert, AlertSettings, DEFAULT_ALERT_SETTINGS, sanitizeAlerts, sanitizeAlertSettings } from './alerts';
+import { Lang, MessageKey, isLang } from './i18n';
+import { Workspace, defaultWorkspace, sanitizeWorkspace } from './workspace';
+
+// Every user setting lives under one versioned localStorage key. Reads never throw: each field is validated
+// on its own and falls back to its default, so one bad value cannot take the whole app down. A document that
+// cannot be read or migrated is kept aside and reported through settingsLoadError().
+// Caches (CB snapshot, manual rates file, AI estimates) and the IndexedDB journal are not settings.
+
+export type CalcMode = 'approx' | 'exact';
+export type ViewMode = 'convert' | 'arbitrage';
+
+export interface Settings {
+  language: Lang | null; // null on first run: the browser language is used
+  workspace: Workspace;  // calculator tabs: pair, rates, amounts and calc mode of each
+  configuredCurrencies: string[];
+  viewMode: ViewMode;
+  proMode: boolean;
+  arbAmount: string;
+  profiles: ProfilesState;
+  fees: FeeRule[];
+  tiers: VolumeTier[];
+  routes: RouteSettings;
+  alerts: RateAlert[];
+  alertSettings: AlertSettings;
+}
+
+export class SettingsError extends Error {
+  constructor(message: string, public readonly key?: MessageKey, public readonly params?: Record<string, string | number>) {
+    super(message);
+    this.name = 'SettingsError';
+  }
+}
+
+const SETTINGS_KEY = 'p2p_settings';
+const BACKUP_TYPE = 'p2p-settings';
+export const SETTINGS_VERSION = 2;
+
+export const defaultSettings = (): Settings => ({
+  language: null,
+  workspace: defaultWorkspace(),
+  configuredCurrencies: ['RUB', 'THB', 'USD', 'EUR'],
+  viewMode: 'convert',
+  proMode: false,
+  arbAmount: '100000',
+  profiles: defaultProfiles(),
+  fees: [],
+  tiers: [],
+  routes: DEFAULT_ROUTE_SETTINGS,
+  alerts: [],
+  alertSettings: DEFAULT_ALERT_SETTINGS,
+});
+
+// --- SCHEMA ---
+const CURRENCY_RE = /^[A-Z0-9]{2,6}$/;
+const DECIMAL_RE = /^-?\d+(\.\d+)?$/;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isCurrency = (v: unknown): v is string => typeof v === 'string' && CURRENCY_RE.test(v);
+const isDecimal = (v: unknown): v is string => typeof v === 'string' && DECIMAL_RE.test(v);
+const oneOf = <T extends string>(values: T[]) => (v: unknown): v is T => values.includes(v as T);
+
+// Returns undefined for a missing or invalid value, which keeps the default
+type FieldSchema = { [K in keyof Settings]: (raw: unknown) => Settings[K] | undefined };
+
+const SCHEMA: FieldSchema = {
+  language: v => isLang(v) ? v : undefined,
+  workspace: v => v === undefined ? undefined : sanitizeWorkspace(v),
+  configuredCurrencies: v => Array.isArray(v) ? [...new Set(v.filter(isCurrency))] : undefined,
+  viewMode: v => oneOf<ViewMode>(['convert', 'arbitrage'])(v) ? v : undefined,
+  proMode: v => typeof v === 'boolean' ? v : undefined,
+  arbAmount: v => isDecimal(v) ? v : undefined,
+  profiles: v => v === undefined ? undefined : sanitizeProfiles(v),
+  fees: v => v === undefined ? undefined : sanitizeFeeRules(v),
+  tiers: v => v === undefined ? undefined : sanitizeTiers(v),
+  routes: v => v === undefined ? undefined : sanitizeRouteSettings(v),
+  alerts: v => v === undefined ? undefined : sanitizeAlerts(v),
+  alertSettings: v => v === undefined ? undefined : sanitizeAlertSettings(v),
+};
+
+export const validateSettings = (raw: unknown): Settings => {
+  const data = isRecord(raw) ? raw : {};
+  const valid: { [K in keyof Settings]?: Settings[K] } = Object.fromEntries(
+    (Object.keys(SCHEMA) as (keyof Settings)[]).map(key => [key, SCHEMA[key](data[key])]).filter(([, value]) => value !== undefined)
+  );
+  return { ...defaultSettings(), ...valid };
+};
+
+// --- MIGRATIONS ---
+// Keys used before the store existed; read once by the version 0 → 1 migration, then removed.
+const LEGACY_KEYS = [
+  'p2p_language', 'p2p_source_curr', 'p2p_target_curr', 'p2p_configured_currencies', 'p2p_calc_mode', 'p2p_view_mode',
+  'p2p_pro_mode', 'p2p_last_buy_rate', 'p2p_last_sell_rate', 'p2p_arb_amount', 'p2p_spread_profiles', 'p2p_spreads',
+  'p2p_fees', 'p2p_route_settings', 'p2p_alerts', 'p2p_alert_settings',
+];
+
+const parseJson = (text: string | null | undefined): unknown => {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// `migrations[n]` turns version n data into version n + 1
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 0 is the raw legacy key/value pairs. Plain strings were stored as-is, everything else as JSON.
+  0: legacy => {
+    const text = (val: unknown) => typeof val === 'string' ? val : undefined;
+    // Last rates were saved as typed, in the UI number format
+    const rate = (val: unknown) => {
+      const typed = text(val);
+      return typed && parseDecimal(typed).isPositive() ? parseDecimal(typed).toString() : '';
+    };
+    const lastBuy = rate(legacy.p2p_last_buy_rate);
+    const lastSell = rate(legacy.p2p_last_sell_rate);
+    const profiles = parseJson(text(legacy.p2p_spread_profiles));
+    return {
+      language: legacy.p2p_language,
+      sourceCurr: legacy.p2p_source_curr,
+      targetCurr: legacy.p2p_target_curr,
+      configuredCurrencies: parseJson(text(legacy.p2p_configured_currencies)),
+      calcMode: legacy.p2p_calc_mode,
+      viewMode: legacy.p2p_view_mode,
+      proMode: legacy.p2p_pro_mode === undefined ? undefined : legacy.p2p_pro_mode === 'true',
+      lastRates: lastBuy && lastSell ? { buy: lastBuy, sell: lastSell } : undefined,
+      arbAmount: legacy.p2p_arb_amount,
+      // Before named profiles there was a single spreads map; it becomes the "Default" profile
+      profiles: profiles ?? defaultProfiles(sanitizeSpreads(parseJson(text(legacy.p2p_spreads)))),
+      fees: parseJson(text(legacy.p2p_fees)),
+      routes: parseJson(text(legacy.p2p_route_settings)),
+      alerts: parseJson(text(legacy.p2p_alerts)),
+      alertSettings: parseJson(text(legacy.p2p_alert_settings)),
+    };
+  },
+  // The single calculator pair becomes the first workspace tab, keeping its mode and last rates
+  1: ({ sourceCurr, targetCurr, calcMode, lastRates, ...rest }) => {
+    const rates = isRecord(lastRates) ? lastRates : {};
+    return { ...rest, workspace: sanitizeWorkspace({ tabs: [{ sourceCurr, targetCurr, calcMode, buyRate: rates.buy, sellRate: rates.sell }] }) };
+  },
+};
+
+export const migrateSettings = (data: Record<string, unknown>, fromVersion: number): Record<string, unknown> => {
+  if (fromVersion > SETTINGS_VERSION) throw new SettingsError(`Settings version ${fromVersion} is newer than this app supports`, 'settings.error.newerVersion', { version: fromVersion });
+  let migrated = data;
+  for (let v = fromVersion; v < SETTINGS_VERSION; v++) migrated = MIGRATIONS[v](migrated);
+  return migrated;
+};
+
+// --- STORE ---
+let current: Settings | null = null;
+let loadError: SettingsError | null = null;
+
+const persist = (settings: Settings) => {
+  current = settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }));
+};
+
+const readLegacy = () => {
+  const legacy: Record<string, string> = {};
+  LEGACY_KEYS.forEach(key => {
+    const val = localStorage.getItem(key);
+    if (val !== null) legacy[key] = val;
+  });
+  return legacy;
+};
+
+// Keeps the unreadable copy so it can still be recovered by hand
+const setAside = (saved: string, error: SettingsError) => {
+  localStorage.setItem(`${SETTINGS_KEY}_corrupted`, saved);
+  loadError = error;
+  return defaultSettings();
+};
+
+const loadStored = (): Settings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (saved === null) {
+    const legacy = readLegacy();
+    if (!Object.keys(legacy).length) return defaultSettings();
+    const settings = validateSettings(migrateSettings(legacy, 0));
+    persist(settings);
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+    return settings;
+  }
+  const doc = parseJson(saved);
+  if (!isRecord(doc) || typeof doc.version !== 'number') {
+    return setAside(saved, new SettingsError('Settings are corrupted, starting from defaults', 'settings.error.corrupted'));
+  }
+  try {
+    const settings = validateSettings(migrateSettings(isRecord(doc.settings) ? doc.settings : {}, doc.version));
+    if (doc.version !== SETTINGS_VERSION) persist(settings);
+    return settings;
+  } catch (e) {
+    return setAside(saved, e instanceof SettingsError ? e : new SettingsError(`Settings migration failed: ${e}`, 'settings.error.migration'));
+  }
+};
+
+export const loadSettings = (): Settings => {
+  if (!current) current = loadStored();
+  return current;
+};
+
+// Why stored settings were replaced by defaults on this load, if they were
+export const settingsLoadError = () => loadError;
+
+export const updateSettings = (patch: Partial<Settings>) => persist({ ...loadSettings(), ...patch });
+
+// --- BACKUP / RESET ---
+export const exportSettings = () =>
+  JSON.stringify({ type: BACKUP_TYPE, version: SETTINGS_VERSION, exportedAt: Date.now(), settings: loadSettings() }, null, 2);
+
+export const parseSettingsBackup = (text: string): Settings => {
+  const data = parseJson(text);
+  if (!isRecord(data) || data.type !== BACKUP_TYPE || typeof data.version !== 'number') throw new SettingsError('Not a settings backup file', 'settings.error.notBackup');
+  return validateSettings(migrateSettings(isRecord(data.settings) ? data.settings : {}, data.version));
+};
+
+export const restoreSettings = (settings: Settings) => persist(settings);
+
+export const resetSettings = () => {
+  localStorage.removeItem(SETTINGS_KEY);
+  current = defaultSettings();
+  loadError = null;
+};
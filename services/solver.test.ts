@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { Decimal } from './decimal';
+import { LegFees, NO_FEES } from './fees';
+import { SolverField, SolverInput, heldField, solveTarget } from './solver';
+
+const values = (patch: Partial<Record<SolverField, string>>): Record<SolverField, string> =>
+  ({ give: '95000', receive: '35000', buyRate: '95', sellRate: '35', margin: '5', ...patch });
+
+const solve = (fixed: SolverField[], patch: Partial<Record<SolverField, string>> = {}, extra: Partial<SolverInput> = {}) =>
+  solveTarget({ fixed, values: values(patch), marginUnit: 'pct', cbBuy: 90, cbSell: 36, ...extra });
+
+describe('heldField', () => {
+  it('keeps the buy rate when no rate is fixed', () => {
+    expect(heldField(['give', 'receive'])).toBe('buyRate');
+    expect(heldField(['give', 'margin'])).toBe('buyRate');
+  });
+
+  it('keeps the Give amount when no amount is fixed', () => {
+    expect(heldField(['buyRate', 'sellRate'])).toBe('give');
+  });
+
+  it('otherwise keeps the rate that is not fixed', () => {
+    expect(heldField(['receive', 'buyRate'])).toBe('sellRate');
+    expect(heldField(['give', 'sellRate'])).toBe('buyRate');
+  });
+});
+
+describe('solveTarget', () => {
+  it('solves the sell rate for two fixed amounts', () => {
+    const result = solve(['give', 'receive'], { sellRate: '' });
+    expect(result?.sellRate.toString()).toBe('35');
+    expect(result?.usdt.toString()).toBe('1000');
+    expect(result?.anchor).toBe('buy');
+  });
+
+  it('solves Give from a fixed Receive and sell rate', () => {
+    const result = solve(['receive', 'sellRate'], { give: '' });
+    expect(result?.give.toString()).toBe('95000');
+    expect(result?.receive.toString()).toBe('35000');
+    expect(result?.anchor).toBe('sell');
+  });
+
+  it('turns a margin over the CB cross rate into the other amount', () => {
+    const result = solve(['give', 'margin'], { receive: '' });
+    expect(result?.marginPct).toBeCloseTo(5, 4);
+    expect(result?.buyRate.toString()).toBe('95');
+    expect(result?.give.toString()).toBe('95000');
+  });
+
+  it('turns a profit amount into the other amount', () => {
+    const result = solve(['receive', 'margin'], { margin: '2500' }, { marginUnit: 'amount' });
+    // 35000 at the 2.5 cross rate is 87500, plus the profit
+    expect(result?.give.round(2).toString()).toBe('90000');
+    expect(result?.profit?.round(2).toString()).toBe('2500');
+  });
+
+  it('hits the fixed amounts with fees included', () => {
+    const fees: LegFees = { ...NO_FEES, buyFiat: { pct: Decimal.from(1), fixed: Decimal.ZERO }, network: { pct: Decimal.ZERO, fixed: Decimal.from(1) } };
+    const result = solve(['give', 'receive'], { sellRate: '' }, { fees });
+    expect(result?.give.toString()).toBe('95000');
+    // Rates are rounded to six decimals, so Receive lands within a fraction of a unit
+    expect(Math.abs(result!.receive.toNumber() - 35000)).toBeLessThan(0.01);
+    expect(result!.sellRate.cmp(Decimal.from(35))).toBeGreaterThan(0);
+  });
+
+  it('needs CB rates for a margin', () => {
+    expect(solve(['give', 'margin'], {}, { cbBuy: undefined })).toBeNull();
+  });
+
+  it('rejects bad input', () => {
+    expect(solve(['give'])).toBeNull();
+    expect(solve(['give', 'give'])).toBeNull();
+    expect(solve(['give', 'receive'], { give: '0' })).toBeNull();
+    expect(solve(['give', 'margin'], { margin: '-100' })).toBeNull();
+  });
+});
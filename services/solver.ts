@@ -0,0 +1,120 @@
+import { Decimal } from './decimal';
+import { LegFees, NO_FEES } from './fees';
+import { AnchorField, ConversionResult, convertAmounts, calculateSpread, parseDecimal } from './calcEngine';
+
+// Works backwards from a desired outcome. The deal has five quantities: Give, Receive, buy rate, sell rate
+// and the margin over the CB cross rate. They are tied by two equations (the conversion chain and the
+// margin definition), so two fixed values plus one kept from the calculator determine the other two.
+// Fees are included; volume tiers are not, the solved rates are the ones typed into the calculator.
+
+export type SolverField = 'give' | 'receive' | 'buyRate' | 'sellRate' | 'margin';
+// The margin is either a percentage over the CB cross rate or a profit amount in the Give currency
+export type MarginUnit = 'pct' | 'amount';
+
+export const SOLVER_FIELDS: SolverField[] = ['give', 'receive', 'buyRate', 'sellRate', 'margin'];
+
+export interface SolverInput {
+  fixed: SolverField[];   // exactly two
+  values: Record<SolverField, Decimal | string>;
+  marginUnit: MarginUnit;
+  cbBuy: number | undefined;   // CB rate of the Give currency
+  cbSell: number | undefined;  // CB rate of the Receive currency
+  fees?: LegFees;
+}
+
+export interface SolverResult {
+  buyRate: Decimal;
+  sellRate: Decimal;
+  give: Decimal;
+  receive: Decimal;
+  usdt: Decimal;
+  anchor: AnchorField;         // the amount the calculator should keep when the rates are applied
+  marginPct: number | null;    // null without CB rates
+  profit: Decimal | null;      // in the Give currency, vs converting at the CB cross rate
+  spreadBuy: number | null;
+  spreadSell: number | null;
+}
+
+// Solved rates are kept this precise so the calculator reproduces the target amounts
+export const SOLVED_RATE_DECIMALS = 6;
+
+// The third known value, taken from the calculator: the buy rate when neither rate is fixed,
+// the Give amount when neither amount is fixed, otherwise the rate that is not fixed.
+export const heldField = (fixed: SolverField[]): SolverField => {
+  if (!fixed.includes('buyRate') && !fixed.includes('sellRate')) return 'buyRate';
+  if (!fixed.includes('give') && !fixed.includes('receive')) return 'give';
+  return fixed.includes('buyRate') ? 'sellRate' : 'buyRate';
+};
+
+// `f` is affine in x wherever no fixed fee clips an amount to zero, so two probes give the exact root
+const solveLinear = (f: (x: Decimal) => Decimal | null, target: Decimal, guess: Decimal): Decimal | null => {
+  const x1 = guess;
+  const x2 = guess.times(2);
+  const y1 = f(x1);
+  const y2 = f(x2);
+  if (!y1 || !y2) return null;
+  const slope = y2.minus(y1).div(x2.minus(x1));
+  if (slope.isZero()) return null;
+  const x = x1.plus(target.minus(y1).div(slope));
+  return x.isPositive() ? x : null;
+};
+
+export const solveTarget = ({ fixed, values, marginUnit, cbBuy, cbSell, fees = NO_FEES }: SolverInput): SolverResult | null => {
+  if (fixed.length !== 2 || fixed[0] === fixed[1]) return null;
+  const known = [...fixed, heldField(fixed)];
+  const value = (field: SolverField) => known.includes(field) ? parseDecimal(values[field]) : null;
+  let give = value('give');
+  let receive = value('receive');
+  let buyRate = value('buyRate');
+  let sellRate = value('sellRate');
+  const margin = value('margin');
+  if ([give, receive, buyRate, sellRate].some(v => v && !v.isPositive())) return null;
+
+  // Units of Give per 1 Receive at CB rates
+  const cbCross = cbBuy && cbSell ? Decimal.from(cbBuy).div(cbSell) : null;
+
+  // A fixed margin turns the known amount into the other one
+  if (margin) {
+    if (!cbCross) return null;
+    const pct = margin.div(100).plus(1);
+    if (give && !receive) receive = marginUnit === 'pct' ? give.div(cbCross.times(pct)) : give.minus(margin).div(cbCross);
+    else if (receive && !give) give = marginUnit === 'pct' ? receive.times(cbCross).times(pct) : receive.times(cbCross).plus(margin);
+    if (!give?.isPositive() || !receive?.isPositive()) return null;
+  }
+
+  // Exactly one of the four is unknown now
+  const convert = (anchor: AnchorField, amount: Decimal, b: Decimal, s: Decimal) =>
+    convertAmounts({ buyRate: b, sellRate: s, anchor, amount, fees });
+  if (give && receive && buyRate && !sellRate) {
+    const [g, r, b] = [give, receive, buyRate];
+    sellRate = solveLinear(s => convert('buy', g, b, s)?.sell ?? null, r, r.times(b).div(g));
+  } else if (give && receive && sellRate && !buyRate) {
+    const [g, r, s] = [give, receive, sellRate];
+    buyRate = solveLinear(b => convert('sell', r, b, s)?.buy ?? null, g, g.times(s).div(r));
+  }
+  if (!buyRate || !sellRate) return null;
+  buyRate = buyRate.round(SOLVED_RATE_DECIMALS);
+  sellRate = sellRate.round(SOLVED_RATE_DECIMALS);
+  if (!buyRate.isPositive() || !sellRate.isPositive()) return null;
+
+  // Fixed amounts stay exact; the rounded rates move the other one by a fraction of a unit
+  const anchor: AnchorField = fixed.includes('receive') && !fixed.includes('give') ? 'sell' : 'buy';
+  const result: ConversionResult | null = anchor === 'buy'
+    ? convert('buy', give!, buyRate, sellRate)
+    : convert('sell', receive!, buyRate, sellRate);
+  if (!result || !result.buy.isPositive() || !result.sell.isPositive()) return null;
+
+  const effective = result.breakdown.effectiveRate;
+  return {
+    buyRate,
+    sellRate,
+    give: result.buy,
+    receive: result.sell,
+    usdt: result.usdt,
+    anchor,
+    marginPct: cbCross ? calculateSpread(effective.toNumber(), cbCross.toNumber()) : null,
+    profit: cbCross ? result.buy.minus(result.sell.times(cbCross)) : null,
+    spreadBuy: cbBuy ? calculateSpread(buyRate.toNumber(), cbBuy) : null,
+    spreadSell: cbSell ? calculateSpread(sellRate.toNumber(), cbSell) : null,
+  };
+};
@@ -0,0 +1,118 @@
+import { SpreadMap } from './calcEngine';
+import { LocalizedError, Translate } from './i18n';
+import { createId } from './ids';
+
+// Named spread presets (one per P2P platform / counterparty), shareable as a JSON file or link.
+
+export interface SpreadProfile {
+  id: string;
+  name: string;
+  spreads: SpreadMap;
+  locked: boolean; // locked profiles are not rewritten when rates are typed
+  updatedAt: number;
+}
+
+export interface ProfilesState {
+  activeId: string;
+  profiles: SpreadProfile[];
+}
+
+export interface SharedProfile {
+  name: string;
+  spreads: SpreadMap;
+}
+
+const SHARE_TYPE = 'p2p-spread-profile';
+export const PROFILE_HASH_PARAM = 'profile';
+
+export const createProfile = (name: string, spreads: SpreadMap = {}): SpreadProfile => ({
+  id: createId(),
+  name,
+  spreads,
+  locked: false,
+  updatedAt: Date.now(),
+});
+
+export const sanitizeSpreads = (raw: unknown): SpreadMap => {
+  const spreads: SpreadMap = {};
+  if (!raw || typeof raw !== 'object') return spreads;
+  Object.entries(raw).forEach(([code, val]: [string, unknown]) => {
+    if (!val || typeof val !== 'object') return;
+    const side = val as { buy?: unknown; sell?: unknown };
+    const buy = String(side.buy ?? '0');
+    const sell = String(side.sell ?? '0');
+    if (isFinite(parseFloat(buy)) && isFinite(parseFloat(sell))) spreads[code.toUpperCase()] = { buy, sell };
+  });
+  return spreads;
+};
+
+// The default profile is unnamed, so its name follows the UI language until the user renames it
+export const defaultProfiles = (spreads: SpreadMap = {}): ProfilesState => {
+  const initial = createProfile('', spreads);
+  return { activeId: initial.id, profiles: [initial] };
+};
+
+const isStoredProfile = (p: unknown): p is Partial<Record<keyof SpreadProfile, unknown>> & { id: string } =>
+  !!p && typeof p === 'object' && 'id' in p && typeof p.id === 'string';
+
+// Falls back to a single empty "Default" profile when nothing usable is stored.
+export const sanitizeProfiles = (raw: unknown): ProfilesState => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof ProfilesState, unknown>>;
+  const profiles: SpreadProfile[] = Array.isArray(data.profiles)
+    ? data.profiles.filter(isStoredProfile).map(p => ({
+        ...createProfile(typeof p.name === 'string' ? p.name : '', sanitizeSpreads(p.spreads)),
+        id: p.id, locked: !!p.locked, updatedAt: Number(p.updatedAt) || 0,
+      }))
+    : [];
+  if (!profiles.length) return defaultProfiles();
+  const activeId = typeof data.activeId === 'string' && profiles.some(p => p.id === data.activeId) ? data.activeId : profiles[0].id;
+  return { activeId, profiles };
+};
+
+export const getActiveProfile = (state: ProfilesState) =>
+  state.profiles.find(p => p.id === state.activeId) || state.profiles[0];
+
+export const profileName = (profile: { name: string }, t: Translate) => profile.name || t('profiles.defaultName');
+
+// --- SHARING ---
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let bin = '';
+  bytes.forEach(b => { bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const b64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(bin, c => c.charCodeAt(0)));
+};
+
+export const exportProfile = (profile: SpreadProfile, pretty: boolean = true) =>
+  JSON.stringify({ type: SHARE_TYPE, version: 1, name: profile.name, spreads: profile.spreads }, null, pretty ? 2 : undefined);
+
+export const parseSharedProfile = (text: string): SharedProfile => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = null;
+  }
+  if (!data || data.type !== SHARE_TYPE) throw new LocalizedError('Not a spread profile file', 'profiles.error.notProfile');
+  return { name: typeof data.name === 'string' ? data.name : '', spreads: sanitizeSpreads(data.spreads) };
+};
+
+export const profileShareLink = (profile: SpreadProfile, baseUrl: string = window.location.href.split('#')[0]) =>
+  `${baseUrl}#${PROFILE_HASH_PARAM}=${toBase64Url(exportProfile(profile, false))}`;
+
+// Reads a profile shared through the URL hash, if any.
+export const readProfileFromHash = (hash: string = window.location.hash): SharedProfile | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(PROFILE_HASH_PARAM);
+  if (!encoded) return null;
+  try {
+    return parseSharedProfile(fromBase64Url(encoded));
+  } catch {
+    return null;
+  }
+};
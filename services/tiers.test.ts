@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { Decimal } from './decimal';
+import { NO_FEES } from './fees';
+import { TierInput, VolumeTier, createTier, matchTiers, sanitizeTiers, tierContains, tierRate, tiersFor } from './tiers';
+
+const small = createTier({ id: 'small', currency: 'RUB', side: 'buy', max: '100000', pricing: 'spread', value: '5' });
+const large = createTier({ id: 'large', currency: 'RUB', side: 'buy', min: '100000.01', pricing: 'rate', value: '93' });
+
+const match = (tiers: VolumeTier[], patch: Partial<TierInput>) => matchTiers({
+  tiers, sourceCurr: 'RUB', targetCurr: 'THB', apiRates: { RUB: 90, THB: 36 },
+  buyRate: '95', sellRate: '36', anchor: 'buy', amount: '50000', fees: NO_FEES, ...patch,
+});
+
+describe('tierContains', () => {
+  it('includes both limits', () => {
+    const tier = createTier({ min: '1000', max: '5000' });
+    expect(tierContains(tier, Decimal.from(1000))).toBe(true);
+    expect(tierContains(tier, Decimal.from(5000))).toBe(true);
+    expect(tierContains(tier, Decimal.from(999.99))).toBe(false);
+    expect(tierContains(tier, Decimal.from(5000.01))).toBe(false);
+  });
+
+  it('treats an empty limit as open', () => {
+    expect(tierContains(small, Decimal.ZERO)).toBe(true);
+    expect(tierContains(large, Decimal.from(1e12))).toBe(true);
+  });
+});
+
+describe('tierRate', () => {
+  it('prices a spread tier off the CB rate', () => {
+    expect(tierRate(small, 90)?.toString()).toBe('94.5');
+    expect(tierRate(small, undefined)).toBeNull();
+  });
+
+  it('takes a fixed rate as is', () => {
+    expect(tierRate(large, undefined)?.toString()).toBe('93');
+    expect(tierRate({ ...large, value: '0' }, 90)).toBeNull();
+  });
+});
+
+describe('tiersFor', () => {
+  it('keeps enabled tiers of the leg, lowest limit first', () => {
+    const other = createTier({ currency: 'RUB', side: 'sell' });
+    const off = createTier({ currency: 'RUB', side: 'buy', enabled: false });
+    expect(tiersFor([large, other, off, small], 'RUB', 'buy').map(t => t.id)).toEqual(['small', 'large']);
+  });
+});
+
+describe('matchTiers', () => {
+  it('picks the tier whose range holds the anchored amount', () => {
+    const low = match([small, large], { amount: '50000' });
+    expect(low.buy.status).toBe('matched');
+    expect(low.buy.tier?.id).toBe('small');
+    expect(low.buy.rate.toString()).toBe('94.5');
+    expect(match([small, large], { amount: '200000' }).buy.tier?.id).toBe('large');
+  });
+
+  it('tests a leg against the amount its own tier produces', () => {
+    // 39000 THB is 1083.33 USDT: 102 375 RUB at the small tier's rate, outside its range, 100 750 at the large one's
+    const result = match([small, large], { anchor: 'sell', amount: '39000' });
+    expect(result.buy.tier?.id).toBe('large');
+    expect(result.result?.buy.round(2).toString()).toBe('100750');
+  });
+
+  it('falls back to the typed rate when no tier fits', () => {
+    const gap = { ...large, min: '110000' };
+    const result = match([small, gap], { anchor: 'sell', amount: '39000' });
+    expect(result.buy.status).toBe('outside');
+    expect(result.buy.rate.toString()).toBe('95');
+    expect(result.buy.min).toBeNull();
+    expect(result.buy.max).toBeNull();
+  });
+
+  it('reports the overall limits of a bounded leg', () => {
+    const bounded = createTier({ currency: 'RUB', side: 'buy', min: '10000', max: '20000', value: '3' });
+    const result = match([bounded], { amount: '50000' });
+    expect(result.buy.status).toBe('outside');
+    expect(result.buy.min?.toString()).toBe('10000');
+    expect(result.buy.max?.toString()).toBe('20000');
+  });
+
+  it('leaves a leg without tiers alone', () => {
+    const result = match([small], { amount: '50000' });
+    expect(result.sell.status).toBe('none');
+    expect(result.sell.rate.toString()).toBe('36');
+  });
+});
+
+describe('sanitizeTiers', () => {
+  it('reads limits saved as numbers and drops tiers without a side', () => {
+    const tiers = sanitizeTiers([{ id: 'a', currency: 'RUB', side: 'buy', pricing: 'rate', min: 1000, value: 93 }, { id: 'b', currency: 'RUB', pricing: 'rate' }]);
+    expect(tiers).toHaveLength(1);
+    expect(tiers[0]).toMatchObject({ min: '1000', max: '', value: '93', enabled: true });
+  });
+});
@@ -0,0 +1,150 @@
+import { Decimal } from './decimal';
+import { LegFees } from './fees';
+import { AnchorField, ConversionResult, convertAmounts, parseDecimal } from './calcEngine';
+import { createId } from './ids';
+
+// Order-book style pricing: each tier is one advertiser's offer for a currency, valid for amounts between
+// its min and max limits (in that currency). `buy` tiers price paying with the currency (the Give leg),
+// `sell` tiers price receiving it (the Receive leg). Without a matching tier the typed rate is used.
+
+export type TierSide = 'buy' | 'sell';
+export type TierPricing = 'spread' | 'rate';
+
+export interface VolumeTier {
+  id: string;
+  label: string;
+  currency: string;
+  side: TierSide;
+  min: string;            // '' = no lower limit
+  max: string;            // '' = no upper limit
+  pricing: TierPricing;
+  value: string;          // % over CB for 'spread', units of currency per 1 USDT for 'rate'
+  enabled: boolean;
+}
+
+export type TierStatus = 'none' | 'matched' | 'outside';
+
+export interface LegTier {
+  status: TierStatus;     // 'none' when the currency has no tiers on this side
+  tier: VolumeTier | null;
+  rate: Decimal;          // the rate actually used for the leg
+  min: Decimal | null;    // overall limits across the leg's tiers, for the out-of-range warning
+  max: Decimal | null;
+}
+
+export interface TierMatch {
+  buy: LegTier;
+  sell: LegTier;
+  result: ConversionResult | null;
+}
+
+export interface TierInput {
+  tiers: VolumeTier[];
+  sourceCurr: string;
+  targetCurr: string;
+  apiRates: Record<string, number>;
+  buyRate: Decimal | string;
+  sellRate: Decimal | string;
+  anchor: AnchorField;
+  amount: Decimal | string;
+  fees: LegFees;
+}
+
+export const createTier = (partial: Partial<VolumeTier> = {}): VolumeTier => ({
+  id: createId(),
+  label: '',
+  currency: 'RUB',
+  side: 'buy',
+  min: '',
+  max: '',
+  pricing: 'spread',
+  value: '0',
+  enabled: true,
+  ...partial,
+});
+
+// A tier needs an id, currency, side and pricing; limits and value may have been saved as numbers
+const sanitizeTier = (raw: unknown): VolumeTier | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const t = raw as Partial<Record<keyof VolumeTier, unknown>>;
+  if (typeof t.id !== 'string' || typeof t.currency !== 'string') return null;
+  if ((t.side !== 'buy' && t.side !== 'sell') || (t.pricing !== 'spread' && t.pricing !== 'rate')) return null;
+  const text = (v: unknown, fallback: string) => typeof v === 'string' || typeof v === 'number' ? String(v) : fallback;
+  return createTier({
+    id: t.id,
+    label: text(t.label, ''),
+    currency: t.currency,
+    side: t.side,
+    min: text(t.min, ''),
+    max: text(t.max, ''),
+    pricing: t.pricing,
+    value: text(t.value, '0'),
+    enabled: typeof t.enabled === 'boolean' ? t.enabled : true,
+  });
+};
+
+export const sanitizeTiers = (raw: unknown): VolumeTier[] =>
+  Array.isArray(raw) ? raw.map(sanitizeTier).filter((t): t is VolumeTier => t !== null) : [];
+
+const bound = (val: string) => val.trim() === '' ? null : parseDecimal(val, { group: '', decimal: '.' });
+
+export const tierContains = (tier: VolumeTier, amount: Decimal) => {
+  const min = bound(tier.min);
+  const max = bound(tier.max);
+  return (!min || amount.cmp(min) >= 0) && (!max || amount.cmp(max) <= 0);
+};
+
+export const tierRate = (tier: VolumeTier, cb: number | undefined): Decimal | null => {
+  const value = parseDecimal(tier.value, { group: '', decimal: '.' });
+  if (tier.pricing === 'rate') return value.isPositive() ? value : null;
+  // Computed directly: rateFromSpread parses its spread in the UI number format
+  return cb ? Decimal.from(cb).times(value.div(100).plus(1)) : null;
+};
+
+export const tiersFor = (tiers: VolumeTier[], currency: string, side: TierSide) =>
+  tiers.filter(t => t.enabled && t.currency === currency && t.side === side)
+    .sort((a, b) => (bound(a.min) ?? Decimal.ZERO).cmp(bound(b.min) ?? Decimal.ZERO));
+
+const limits = (tiers: VolumeTier[]) => {
+  const mins = tiers.map(t => bound(t.min));
+  const maxes = tiers.map(t => bound(t.max));
+  return {
+    min: mins.some(m => m === null) ? null : mins.reduce<Decimal | null>((lo, m) => !lo || m!.cmp(lo) < 0 ? m : lo, null),
+    max: maxes.some(m => m === null) ? null : maxes.reduce<Decimal | null>((hi, m) => !hi || m!.cmp(hi) > 0 ? m : hi, null),
+  };
+};
+
+// A tier's rate changes the leg amount it is tested against (unless that leg is the anchor), so every
+// combination is tried: the first where each leg's tier contains its own resulting amount wins.
+// A leg where no tier fits falls back to the typed rate and is reported as 'outside'.
+export const matchTiers = ({ tiers, sourceCurr, targetCurr, apiRates, buyRate, sellRate, anchor, amount, fees }: TierInput): TierMatch => {
+  const buyTiers = tiersFor(tiers, sourceCurr, 'buy');
+  const sellTiers = tiersFor(tiers, targetCurr, 'sell');
+  const base = { buy: parseDecimal(buyRate), sell: parseDecimal(sellRate) };
+  const priced = (list: VolumeTier[], cb: number | undefined) =>
+    list.map(tier => ({ tier, rate: tierRate(tier, cb) })).filter((c): c is { tier: VolumeTier; rate: Decimal } => c.rate !== null);
+  // `null` stands for "no tier": the typed rate
+  const buyOptions = [...priced(buyTiers, apiRates[sourceCurr]), null];
+  const sellOptions = [...priced(sellTiers, apiRates[targetCurr]), null];
+
+  const leg = (list: VolumeTier[], pick: { tier: VolumeTier; rate: Decimal } | null, baseRate: Decimal): LegTier => ({
+    status: list.length === 0 ? 'none' : pick ? 'matched' : 'outside',
+    tier: pick?.tier ?? null,
+    rate: pick?.rate ?? baseRate,
+    ...limits(list),
+  });
+
+  const fits = (pick: { tier: VolumeTier } | null, list: VolumeTier[], legAmount: Decimal) =>
+    pick ? tierContains(pick.tier, legAmount) : !list.some(t => tierContains(t, legAmount));
+
+  for (const b of buyOptions) {
+    for (const s of sellOptions) {
+      const result = convertAmounts({ buyRate: b?.rate ?? base.buy, sellRate: s?.rate ?? base.sell, anchor, amount, fees });
+      if (result && fits(b, buyTiers, result.buy) && fits(s, sellTiers, result.sell)) {
+        return { buy: leg(buyTiers, b, base.buy), sell: leg(sellTiers, s, base.sell), result };
+      }
+    }
+  }
+  const result = convertAmounts({ buyRate: base.buy, sellRate: base.sell, anchor, amount, fees });
+  return { buy: leg(buyTiers, null, base.buy), sell: leg(sellTiers, null, base.sell), result };
+};
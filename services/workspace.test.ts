@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_TABS, Workspace, addTab, closeTab, createTab, pinnedQuote, sanitizeWorkspace, togglePin } from './workspace';
+
+const workspace = (count: number, active = 0): Workspace => {
+  const tabs = Array.from({ length: count }, (_, i) => createTab({ id: `t${i}` }));
+  return { tabs, activeId: tabs[active].id, pinned: [] };
+};
+const ids = (ws: Workspace) => ws.tabs.map(tab => tab.id);
+
+describe('addTab', () => {
+  it('opens the tab next to the active one and activates it', () => {
+    const ws = addTab(workspace(3, 0), createTab({ id: 'new' }));
+    expect(ids(ws)).toEqual(['t0', 'new', 't1', 't2']);
+    expect(ws.activeId).toBe('new');
+  });
+
+  it('drops the oldest inactive tab past the limit', () => {
+    const ws = addTab(workspace(MAX_TABS, 0), createTab({ id: 'new' }));
+    expect(ws.tabs).toHaveLength(MAX_TABS);
+    expect(ids(ws).slice(0, 3)).toEqual(['t0', 'new', 't2']);
+  });
+});
+
+describe('closeTab', () => {
+  it('activates the neighbour of a closed active tab', () => {
+    expect(closeTab(workspace(3, 1), 't1').activeId).toBe('t2');
+    expect(closeTab(workspace(3, 2), 't2').activeId).toBe('t1');
+    expect(closeTab(workspace(3, 0), 't2').activeId).toBe('t0');
+  });
+
+  it('keeps the last tab open', () => {
+    const ws = workspace(1);
+    expect(closeTab(ws, 't0')).toBe(ws);
+  });
+});
+
+describe('togglePin', () => {
+  it('pins and unpins a pair', () => {
+    const pinned = togglePin(workspace(1), 'RUB/THB');
+    expect(pinned.pinned).toEqual(['RUB/THB']);
+    expect(togglePin(pinned, 'RUB/THB').pinned).toEqual([]);
+  });
+});
+
+describe('sanitizeWorkspace', () => {
+  it('resets bad tab fields one by one', () => {
+    const ws = sanitizeWorkspace({ tabs: [{ id: 'a', sourceCurr: 'usd', targetCurr: 'USD', calcMode: 'exact', buyRate: '-1', amount: '500' }], activeId: 'a' });
+    expect(ws.tabs[0]).toMatchObject({ id: 'a', sourceCurr: 'RUB', targetCurr: 'USD', calcMode: 'exact', buyRate: '', amount: '500' });
+  });
+
+  it('drops duplicate tabs and points a stale active id at the first tab', () => {
+    const ws = sanitizeWorkspace({ tabs: [{ id: 'a' }, { id: 'a' }, null, { id: 'b' }], activeId: 'gone', pinned: ['RUB/THB', 'rub/thb', 'RUB/THB'] });
+    expect(ids(ws)).toEqual(['a', 'b']);
+    expect(ws.activeId).toBe('a');
+    expect(ws.pinned).toEqual(['RUB/THB']);
+  });
+
+  it('always leaves at least one tab', () => {
+    const ws = sanitizeWorkspace({ tabs: [] });
+    expect(ws.tabs).toHaveLength(1);
+    expect(ws.activeId).toBe(ws.tabs[0].id);
+  });
+
+  it('caps the number of tabs', () => {
+    expect(sanitizeWorkspace({ tabs: Array.from({ length: MAX_TABS + 2 }, (_, i) => ({ id: `t${i}` })) }).tabs).toHaveLength(MAX_TABS);
+  });
+});
+
+describe('pinnedQuote', () => {
+  it('prices a pinned pair from the CB rates and spreads', () => {
+    const quote = pinnedQuote('RUB/THB', { RUB: 90, THB: 36 }, { RUB: { buy: '5', sell: '0' }, THB: { buy: '0', sell: '-2' } });
+    expect(quote.buyRate?.toString()).toBe('94.5');
+    expect(quote.sellRate?.toString()).toBe('35.28');
+    expect(quote.spreadBuy).toBeCloseTo(5);
+    expect(quote.spreadSell).toBeCloseTo(-2);
+    expect(quote.spreadCross).toBeCloseTo((94.5 / 35.28 / 2.5 - 1) * 100);
+  });
+
+  it('leaves a leg without a CB rate empty', () => {
+    const quote = pinnedQuote('RUB/KZT', { RUB: 90 }, {});
+    expect(quote.sellRate).toBeNull();
+    expect(quote.spreadCross).toBeNull();
+  });
+});
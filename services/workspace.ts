@@ -0,0 +1,149 @@
+import { Decimal } from './decimal';
+import { AnchorField, SpreadMap, calculateSpread, rateFromSpread } from './calcEngine';
+import { CalcMode } from './settings';
+import { createId } from './ids';
+
+// Calculator tabs, one per corridor the operator is working on, and the pinned pairs watched on the dashboard.
+// A tab stores what the calculator needs to come back exactly as it was left: rates and the anchored amount
+// are canonical decimal strings ("1234.5"); the other two amounts are recomputed from them.
+
+export interface PairTab {
+  id: string;
+  sourceCurr: string;
+  targetCurr: string;
+  calcMode: CalcMode;
+  buyRate: string;   // '' until rates are entered; the calculator then prices the pair from its spreads
+  sellRate: string;
+  anchor: AnchorField;
+  amount: string;
+}
+
+export interface Workspace {
+  tabs: PairTab[];
+  activeId: string;
+  pinned: string[];  // pair keys, "RUB/THB"
+}
+
+export interface PinnedQuote {
+  pair: string;
+  sourceCurr: string;
+  targetCurr: string;
+  buyRate: Decimal | null;   // approx rates: CB plus the active profile's spreads
+  sellRate: Decimal | null;
+  spreadBuy: number | null;
+  spreadSell: number | null;
+  spreadCross: number | null; // Give per 1 Receive vs the CB cross rate, fee-free
+}
+
+export const MAX_TABS = 8;
+
+const CURRENCY_RE = /^[A-Z0-9]{2,6}$/;
+const DECIMAL_RE = /^\d+(\.\d+)?$/;
+const PAIR_RE = /^[A-Z0-9]{2,6}\/[A-Z0-9]{2,6}$/;
+const ANCHORS: AnchorField[] = ['buy', 'sell', 'usdt'];
+
+export const createTab = (partial: Partial<PairTab> = {}): PairTab => ({
+  id: createId(),
+  sourceCurr: 'RUB',
+  targetCurr: 'THB',
+  calcMode: 'approx',
+  buyRate: '',
+  sellRate: '',
+  anchor: 'buy',
+  amount: '10000',
+  ...partial,
+});
+
+export const defaultWorkspace = (): Workspace => {
+  const tab = createTab();
+  return { tabs: [tab], activeId: tab.id, pinned: [] };
+};
+
+export const pairKey = (sourceCurr: string, targetCurr: string) => `${sourceCurr}/${targetCurr}`;
+
+export const splitPair = (pair: string) => {
+  const [sourceCurr, targetCurr] = pair.split('/');
+  return { sourceCurr, targetCurr };
+};
+
+// Field by field, so one bad value only resets itself
+const sanitizeTab = (raw: object): PairTab => {
+  const t = raw as Partial<Record<keyof PairTab, unknown>>;
+  const pick = <K extends keyof PairTab>(key: K, valid: (v: unknown) => v is PairTab[K]): Partial<PairTab> => valid(t[key]) ? { [key]: t[key] } : {};
+  const isCurrency = (v: unknown): v is string => typeof v === 'string' && CURRENCY_RE.test(v);
+  const isRate = (v: unknown): v is string => v === '' || (typeof v === 'string' && DECIMAL_RE.test(v));
+  return createTab({
+    ...pick('id', (v): v is string => typeof v === 'string' && v !== ''),
+    ...pick('sourceCurr', isCurrency),
+    ...pick('targetCurr', isCurrency),
+    ...pick('calcMode', (v): v is CalcMode => v === 'approx' || v === 'exact'),
+    ...pick('buyRate', isRate),
+    ...pick('sellRate', isRate),
+    ...pick('anchor', (v): v is AnchorField => ANCHORS.some(a => a === v)),
+    ...pick('amount', isRate),
+  });
+};
+
+const sanitizePinned = (raw: unknown): string[] =>
+  Array.isArray(raw) ? [...new Set(raw.filter((p): p is string => typeof p === 'string' && PAIR_RE.test(p)))] : [];
+
+export const sanitizeWorkspace = (raw: unknown): Workspace => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof Workspace, unknown>>;
+  const tabs = (Array.isArray(data.tabs) ? data.tabs.filter((t): t is object => !!t && typeof t === 'object').map(sanitizeTab) : [])
+    .filter((tab, i, all) => all.findIndex(x => x.id === tab.id) === i)
+    .slice(0, MAX_TABS);
+  if (!tabs.length) return { ...defaultWorkspace(), pinned: sanitizePinned(data.pinned) };
+  return {
+    tabs,
+    activeId: tabs.find(tab => tab.id === data.activeId)?.id ?? tabs[0].id,
+    pinned: sanitizePinned(data.pinned),
+  };
+};
+
+export const getActiveTab = (ws: Workspace) => ws.tabs.find(tab => tab.id === ws.activeId) || ws.tabs[0];
+
+export const saveTab = (ws: Workspace, tab: PairTab): Workspace => ({ ...ws, tabs: ws.tabs.map(x => x.id === tab.id ? tab : x) });
+
+// New tabs open next to the active one and become active; past the limit the oldest inactive tab is dropped
+export const addTab = (ws: Workspace, tab: PairTab): Workspace => {
+  const at = ws.tabs.findIndex(x => x.id === ws.activeId) + 1;
+  let tabs = [...ws.tabs.slice(0, at), tab, ...ws.tabs.slice(at)];
+  if (tabs.length > MAX_TABS) {
+    const drop = tabs.find(x => x.id !== ws.activeId && x.id !== tab.id);
+    tabs = tabs.filter(x => x !== drop);
+  }
+  return { ...ws, tabs, activeId: tab.id };
+};
+
+// The last tab cannot be closed; closing the active tab activates its neighbour
+export const closeTab = (ws: Workspace, id: string): Workspace => {
+  if (ws.tabs.length < 2) return ws;
+  const index = ws.tabs.findIndex(x => x.id === id);
+  const tabs = ws.tabs.filter(x => x.id !== id);
+  const activeId = ws.activeId === id ? tabs[Math.min(index, tabs.length - 1)].id : ws.activeId;
+  return { ...ws, tabs, activeId };
+};
+
+export const togglePin = (ws: Workspace, pair: string): Workspace => ({
+  ...ws,
+  pinned: ws.pinned.includes(pair) ? ws.pinned.filter(p => p !== pair) : [...ws.pinned, pair],
+});
+
+// --- DASHBOARD ---
+export const pinnedQuote = (pair: string, apiRates: Record<string, number>, spreads: SpreadMap): PinnedQuote => {
+  const { sourceCurr, targetCurr } = splitPair(pair);
+  const cbBuy = apiRates[sourceCurr];
+  const cbSell = apiRates[targetCurr];
+  const buyRate = cbBuy ? rateFromSpread(cbBuy, spreads[sourceCurr]?.buy || '0') : null;
+  const sellRate = cbSell ? rateFromSpread(cbSell, spreads[targetCurr]?.sell || '0') : null;
+  return {
+    pair,
+    sourceCurr,
+    targetCurr,
+    buyRate,
+    sellRate,
+    spreadBuy: buyRate && cbBuy ? calculateSpread(buyRate.toNumber(), cbBuy) : null,
+    spreadSell: sellRate && cbSell ? calculateSpread(sellRate.toNumber(), cbSell) : null,
+    spreadCross: buyRate && sellRate && sellRate.isPositive() ? calculateSpread(buyRate.div(sellRate).toNumber(), cbBuy / cbSell) : null,
+  };
+};
@@ -0,0 +1,11 @@
+import { beforeEach, vi } from 'vitest';
+
+// Tests run in Node, which has no localStorage; every test starts with an empty in-memory one
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); },
+  });
+});